@@ -1,13 +1,55 @@
 "use client";
 
+import { FormEvent, Suspense, useState } from "react";
+import { useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { signIn } from "next-auth/react";
 import { FaGoogle } from "react-icons/fa";
+import { Loader2, Mail } from "lucide-react";
+import { safeCallbackUrl } from "@/lib/utils";
 
 export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginCard />
+    </Suspense>
+  );
+}
+
+function LoginCard() {
+  const searchParams = useSearchParams();
+  const callbackUrl = safeCallbackUrl(searchParams.get("callbackUrl"));
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [emailError, setEmailError] = useState<string | null>(null);
 
   const handleLogin = () => {
-    signIn("google", { callbackUrl: "/" }); 
+    signIn("google", { callbackUrl });
+  };
+
+  const handleEmailLogin = async (e: FormEvent) => {
+    e.preventDefault();
+    setEmailError(null);
+    setIsSending(true);
+    try {
+      const response = await fetch("/api/login/email", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, callbackUrl }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        setEmailError(body?.message ?? "No pudimos enviar el enlace. Intenta de nuevo más tarde.");
+        return;
+      }
+      setSentTo(email);
+    } catch {
+      setEmailError("No se pudo conectar con el servidor");
+    } finally {
+      setIsSending(false);
+    }
   };
 
   return (
@@ -15,7 +57,7 @@ export default function LoginPage() {
       <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-lg flex flex-col justify-center">
         <h1 className="text-3xl font-bold text-center mb-6">Iniciar sesión</h1>
         <p className="text-center text-muted-foreground mb-8">
-          Inicia sesión con tu cuenta de Google para continuar
+          Inicia sesión con tu cuenta de Google o con tu email para continuar
         </p>
         <Button
           onClick={handleLogin}
@@ -24,7 +66,35 @@ export default function LoginPage() {
           <FaGoogle className="mr-2 h-4 w-4"/>
           Iniciar sesión con Google
         </Button>
+
+        <div className="flex items-center gap-4 my-6">
+          <div className="flex-1 border-t" />
+          <span className="text-sm text-muted-foreground">o</span>
+          <div className="flex-1 border-t" />
+        </div>
+
+        {sentTo ? (
+          <p className="text-center text-green-700 bg-green-50 border border-green-400 rounded-md p-4">
+            Te enviamos un enlace a <strong>{sentTo}</strong>. Revisa tu correo para iniciar sesión.
+          </p>
+        ) : (
+          <form onSubmit={handleEmailLogin} className="space-y-3">
+            <Input
+              type="email"
+              required
+              placeholder="tu@email.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              aria-label="Email"
+            />
+            {emailError && <p className="text-sm text-destructive">{emailError}</p>}
+            <Button type="submit" variant="outline" className="w-full" disabled={isSending}>
+              {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+              Enviarme un enlace para iniciar sesión
+            </Button>
+          </form>
+        )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { signIn } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import Loader from "@/components/ui/loader";
+import { EMAIL_LINK_PROVIDER } from "@/lib/api/auth";
+import { safeCallbackUrl } from "@/lib/utils";
+
+export default function VerificarEnlacePage() {
+  return (
+    <Suspense fallback={<Loader />}>
+      <VerificarEnlace />
+    </Suspense>
+  );
+}
+
+function VerificarEnlace() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const [failed, setFailed] = useState(false);
+  // El token es de un solo uso: evita canjearlo dos veces si el efecto se repite
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    const token = searchParams.get("token");
+    if (!token) {
+      setFailed(true);
+      return;
+    }
+
+    signIn(EMAIL_LINK_PROVIDER, { token, redirect: false })
+      .then((result) => {
+        if (result?.ok && !result.error) {
+          router.replace(safeCallbackUrl(searchParams.get("callbackUrl")));
+        } else {
+          setFailed(true);
+        }
+      })
+      // Sin conexión tampoco se puede canjear: se ofrece pedir otro enlace
+      .catch(() => setFailed(true));
+  }, [searchParams, router]);
+
+  if (!failed) { return <Loader />; }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center">
+      <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-lg flex flex-col justify-center text-center">
+        <h1 className="text-2xl font-bold mb-4">El enlace no es válido</h1>
+        <p className="text-muted-foreground mb-8">
+          Puede que haya vencido o que ya se haya usado. Pide uno nuevo para iniciar sesión.
+        </p>
+        <Button asChild className="bg-ocean-gradient text-white font-semibold">
+          <Link href="/login">Volver a iniciar sesión</Link>
+        </Button>
+      </div>
+    </div>
+  );
+}
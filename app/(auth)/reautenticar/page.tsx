@@ -0,0 +1,33 @@
+"use client";
+
+import { useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import Loader from "@/components/ui/loader";
+import { loginUrl } from "@/lib/loginRedirect";
+import { REAUTH_MESSAGE, REAUTH_PATH } from "@/components/auth/ReauthPrompt";
+
+// Se abre como ventana emergente desde ReauthPrompt: pasa por el login, con Google o con el enlace
+// por email, y al volver avisa a la ventana original
+export default function ReautenticarPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (status === "loading") return;
+
+    if (status === "authenticated" && !session?.error) {
+      if (window.opener) {
+        window.opener.postMessage(REAUTH_MESSAGE, window.location.origin);
+        window.close();
+      } else {
+        router.replace("/");
+      }
+      return;
+    }
+
+    router.replace(loginUrl(REAUTH_PATH));
+  }, [status, session?.error, router]);
+
+  return <Loader />;
+}
@@ -4,16 +4,19 @@ import type React from "react";
 import { SessionProvider } from "next-auth/react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import Header from "@/components/header/Header";
+import ReauthPrompt from "@/components/auth/ReauthPrompt";
 import FooterSection from "@/components/home-page/FooterSection";
 import { Analytics } from "@vercel/analytics/react";
+import { SESSION_REFETCH_INTERVAL_S } from "@/lib/api/auth";
 
 const queryClient = new QueryClient();
 
 export default function ClientProviders({ children }: { children: React.ReactNode }) {
   return (
-    <SessionProvider>
+    <SessionProvider refetchInterval={SESSION_REFETCH_INTERVAL_S}>
       <QueryClientProvider client={queryClient}>
         <Header />
+        <ReauthPrompt />
         <main className="container mx-auto px-4 sm:px-6 lg:px-8 max-w-7xl py-6 sm:py-2 lg:py-4">
           {children}
           <FooterSection />
@@ -5,16 +5,15 @@ import { useCategorias, useCategoriaImages, useDeleteImage, useCreateImage } fro
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useSession } from "next-auth/react";
-import { useAuthCheck } from "@/lib/hooks/useAuthCheck";
 import { useRouter } from "next/navigation"; 
-import { useEffect, useState } from "react";
+import { useState } from "react";
 import { ArrowLeft, Loader2, LucideCross } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Dialog, DialogContent, DialogTitle, DialogTrigger, DialogPortal, DialogOverlay } from "@radix-ui/react-dialog";
 import Image from "next/image";
 
 export default function CategoryPage() {
-  const { data: session, status } = useSession();
+  const { data: session } = useSession();
   const { id } = useParams();
   const { data: categories, isLoading: CategoriasLoading } = useCategorias();
   const { data: images, isLoading: CategoriaImagesLoading } = useCategoriaImages(id as string, session?.backendToken as string);
@@ -24,27 +23,6 @@ export default function CategoryPage() {
   const router = useRouter();
   const [open, setOpen] = useState(false);
 
-  useAuthCheck();
-
-  useEffect(() => {
-    if (status === "unauthenticated") {
-      router.push("/login");
-    }
-  }, [status, router]);
-
-  if (status === "unauthenticated") {
-    router.push("/login");
-    return null;
-  }
-
-  if (
-    status === "authenticated" &&
-    !process.env.NEXT_PUBLIC_ADMIN_EMAILS?.split(",").includes(session?.user.email as string)
-  ) {
-    router.push("/");
-    return null;
-  }
-
   const handleDeleteImage = (imageUrl: string) => {
     deleteMutation.mutate(
       {categoriaId: id as string, imageUrl: imageUrl, token: session?.backendToken as string },
@@ -1,10 +1,7 @@
 "use client";
 
 import { useSession } from "next-auth/react";
-import { useEffect } from "react";
 import { Anchor, BicepsFlexed, Book, BookUser, Briefcase, Building, ChartArea, CircleDollarSign, Coffee, Factory, Fish, Hammer, Handshake, HeartPulse, Laptop, Loader2, Scissors, SquareChartGantt, Truck, Warehouse, Waypoints, Wrench } from "lucide-react";
-import { useRouter } from "next/navigation";
-import { useAuthCheck } from "@/lib/hooks/useAuthCheck";
 import { useCategorias } from "@/lib/hooks/useCategorias";
 import { Card, CardContent, CardTitle } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
@@ -12,29 +9,9 @@ import VolverButton from "@/components/ui/volver";
 import Link from "next/link";
 
 export default function AdminImages() {
-    const { data: session, status } = useSession();
+    const { status } = useSession();
     const { data: categorias, isLoading: categoriasLoading } = useCategorias(); 
-    const router = useRouter();
     
-    useAuthCheck();
-    
-    useEffect(() => {
-        if (status === "unauthenticated") {
-        router.push("/login");
-        }
-    }, [status, router]);
-    
-
-    if (status === "unauthenticated") {
-        router.push("/login");
-        return null;
-      }
-    
-      if (status === "authenticated" && !process.env.NEXT_PUBLIC_ADMIN_EMAILS?.split(",").includes(session?.user.email as string)) {
-        router.push("/");
-         return null;
-    }
-
     const categoriasIcons: { [key: string]: React.ReactNode } = {
         "Turismo": <Anchor className="h-6 w-6" />,
         "Ventas": <CircleDollarSign className="h-6 w-6" />,
@@ -1,25 +1,30 @@
 "use client";
 
-import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
-import { Loader2 } from "lucide-react";
-import { useAuthCheck } from "@/lib/hooks/useAuthCheck";
+import { Input } from "@/components/ui/input";
+import { Loader2, Star } from "lucide-react";
 import { useEffect, useState, useMemo } from "react";
 import { Oferta } from "@/lib/types/iOferta";
-import { useOfertas } from "@/lib/hooks/useOfertas";
+import { useDestacarOfertaAdmin, useOfertas, useQuitarDestacadaAdmin } from "@/lib/hooks/useOfertas";
+import { useRole } from "@/lib/hooks/useRole";
+import { isDestacada } from "@/lib/destacadas";
+import { fechaInputLocal, isCerrada } from "@/lib/cierre";
 import { useSession } from "next-auth/react";
 import { enableOfertaAdmin, deleteOfertaAdmin } from "@/lib/api/ofertas";
+import { isApiError } from "@/lib/api/client";
 import Image from "next/image";
 import VolverButton from "@/components/ui/volver";
+import { FORMA_POSTULACION_LABELS } from "@/lib/condiciones";
+
+// Duración sugerida al destacar un aviso, el administrador puede cambiarla
+const DIAS_DESTACADA_POR_DEFECTO = 30;
 
 export default function AdminPage() {
   const { data: session, status } = useSession();
-  const router = useRouter();
+  const { isAdmin } = useRole();
   const { data: fetchedOfertas, isLoading } = useOfertas();
   const [filteredOfertas, setFilteredOfertas] = useState<Oferta[]>([]);
 
-  useAuthCheck();
-
   const filteredOfertasMemo = useMemo(() => {
     const ofertasToFilter = fetchedOfertas || [];
     return ofertasToFilter.filter((oferta) => oferta.habilitado === false);
@@ -29,16 +34,6 @@ export default function AdminPage() {
     setFilteredOfertas(filteredOfertasMemo);
   }, [filteredOfertasMemo]);
 
-  if (status === "unauthenticated") {
-    router.push("/login");
-    return null;
-  }
-
-  if (status === "authenticated" && !process.env.NEXT_PUBLIC_ADMIN_EMAILS?.split(",").includes(session?.user.email as string)) {
-    router.push("/");
-     return null;
-}
-
   if (status === "loading" || isLoading) {
     return (
       <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
@@ -90,6 +85,21 @@ export default function AdminPage() {
           </div>
         )}
       </div>
+      {isAdmin && (
+        <div className="mb-8">
+          <h2 className="text-2xl font-bold text-center text-primary mb-2">Avisos Destacados</h2>
+          <p className="text-center text-muted-foreground mb-6">
+            Los avisos destacados aparecen en la portada y primeros en el listado hasta la fecha indicada.
+          </p>
+          <div className="space-y-3">
+            {(fetchedOfertas ?? [])
+              .filter((oferta) => oferta.habilitado && !isCerrada(oferta))
+              .map((oferta) => (
+                <DestacadaRow key={oferta.id} oferta={oferta} token={session?.backendToken as string} />
+              ))}
+          </div>
+        </div>
+      )}
     </section>
   );
 }
@@ -141,7 +151,7 @@ function OfertaCard({ oferta, onHabilitar, onRechazar}: { oferta: Oferta; onHabi
           </p>
         )}
         <p>
-          <span className="font-medium">Forma de postulación:</span> {oferta.formaPostulacion}
+          <span className="font-medium">Forma de postulación:</span> {FORMA_POSTULACION_LABELS[oferta.formaPostulacion]}
         </p>
         {oferta.contactoPostulacion && (
           <p>
@@ -150,6 +160,8 @@ function OfertaCard({ oferta, onHabilitar, onRechazar}: { oferta: Oferta; onHabi
               <a href={`mailto:${oferta.contactoPostulacion}`} className="text-blue-500 hover:underline">
                 {oferta.contactoPostulacion}
               </a>
+            ) : oferta.formaPostulacion !== "LINK" ? (
+              oferta.contactoPostulacion
             ) : (
               <a
                 href={oferta.contactoPostulacion}
@@ -162,6 +174,11 @@ function OfertaCard({ oferta, onHabilitar, onRechazar}: { oferta: Oferta; onHabi
             )}
           </p>
         )}
+        {oferta.horarioPostulacion && (
+          <p>
+            <span className="font-medium">Horario:</span> {oferta.horarioPostulacion}
+          </p>
+        )}
       </div>
       <Button
         onClick={onHabilitar}
@@ -177,4 +194,78 @@ function OfertaCard({ oferta, onHabilitar, onRechazar}: { oferta: Oferta; onHabi
       </Button>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function DestacadaRow({ oferta, token }: { oferta: Oferta; token: string }) {
+  const destacada = isDestacada(oferta);
+  const [hasta, setHasta] = useState(() => {
+    const hoy = new Date();
+    return fechaInputLocal(new Date(hoy.getFullYear(), hoy.getMonth(), hoy.getDate() + DIAS_DESTACADA_POR_DEFECTO));
+  });
+  const destacarMutation = useDestacarOfertaAdmin();
+  const quitarMutation = useQuitarDestacadaAdmin();
+  const isPending = destacarMutation.isPending || quitarMutation.isPending;
+  const error = destacarMutation.error ?? quitarMutation.error;
+
+  const handleDestacar = () => {
+    // Vale hasta el final del día elegido
+    const destacadaHasta = hasta ? new Date(`${hasta}T23:59:59`).toISOString() : null;
+    quitarMutation.reset();
+    destacarMutation.mutate({ id: oferta.id, destacadaHasta, token });
+  };
+
+  const handleQuitar = () => {
+    destacarMutation.reset();
+    quitarMutation.mutate({ id: oferta.id, token });
+  };
+
+  return (
+    <div
+      className={`flex flex-col gap-3 rounded-lg border p-4 md:flex-row md:items-center md:justify-between ${
+        destacada ? "border-amber-300 bg-amber-50" : "border-gray-200 bg-white"
+      }`}
+    >
+      <div>
+        <p className="font-semibold text-gray-800 flex items-center gap-2">
+          {destacada && <Star className="h-4 w-4 fill-amber-400 text-amber-500" />}
+          {oferta.titulo}
+        </p>
+        <p className="text-sm text-gray-600">
+          {oferta.empresaConsultora}
+          {destacada &&
+            (oferta.destacadaHasta
+              ? ` · Destacado hasta el ${new Date(oferta.destacadaHasta).toLocaleDateString("es-AR")}`
+              : " · Destacado sin vencimiento")}
+        </p>
+        {error && (
+          <p className="text-sm text-destructive">
+            {destacarMutation.error ? "No se pudo destacar el aviso: " : "No se pudo quitar el destacado: "}
+            {isApiError(error) ? error.backendMessage : error.message}
+          </p>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          value={hasta}
+          min={fechaInputLocal()}
+          onChange={(e) => setHasta(e.target.value)}
+          className="w-40"
+          aria-label={`Destacar "${oferta.titulo}" hasta`}
+        />
+        <Button onClick={handleDestacar} disabled={isPending} className="bg-amber-500 text-white hover:bg-amber-600">
+          {destacada ? "Extender" : "Destacar"}
+        </Button>
+        {destacada && (
+          <Button
+            variant="outline"
+            onClick={handleQuitar}
+            disabled={isPending}
+          >
+            Quitar
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
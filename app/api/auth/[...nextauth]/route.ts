@@ -1,7 +1,32 @@
-import NextAuth, { NextAuthOptions } from "next-auth";
+import NextAuth, { Account, NextAuthOptions } from "next-auth";
 import GoogleProvider from "next-auth/providers/google";
+import CredentialsProvider from "next-auth/providers/credentials";
+import {
+  EMAIL_LINK_PROVIDER,
+  ensureFreshBackendToken,
+  getBackendTokenExpiry,
+  loginWithEmailToken,
+  loginWithGoogle,
+  LoginResponse,
+} from "@/lib/api/auth";
+import { isApiError } from "@/lib/api/client";
+import { Rol } from "@/lib/types/iRol";
 
-const apiUrl = process.env.NEXT_PUBLIC_API_URL;
+// Los dos proveedores guardan la sesión del backend en `account` para que el callback `jwt` la lea igual
+const applyBackendLogin = (account: Account, data: LoginResponse) => {
+  account.backendToken = data.token;
+  account.backendTokenExpires = getBackendTokenExpiry(data);
+  account.userId = data.usuarioId;
+  account.rol = data.rol;
+};
+
+const logBackendError = (error: unknown) => {
+  if (isApiError(error) && !error.isNetworkError) {
+    console.error("Error from backend:", error.backendMessage);
+  } else {
+    console.error("Error contacting backend:", error);
+  }
+};
 
 const authOptions: NextAuthOptions = {
   providers: [
@@ -14,43 +39,51 @@ const authOptions: NextAuthOptions = {
         },
       },
     }),
+    // Inicio de sesión con el enlace que llega por email: el token de un solo uso lo emite el backend
+    CredentialsProvider({
+      id: EMAIL_LINK_PROVIDER,
+      name: "Email",
+      credentials: {
+        token: { type: "text" },
+      },
+      async authorize(credentials) {
+        if (!credentials?.token) return null;
+        try {
+          const data = await loginWithEmailToken(credentials.token);
+          return { id: data.usuarioId, email: data.email, name: data.nombre ?? data.email, backendLogin: data };
+        } catch (error) {
+          logBackendError(error);
+          return null;
+        }
+      },
+    }),
   ],
   callbacks: {
-    async signIn({ account, profile }) {
+    async signIn({ account, profile, user }) {
+      if (account?.provider === EMAIL_LINK_PROVIDER) {
+        if (!user.backendLogin) return false;
+        applyBackendLogin(account, user.backendLogin);
+        return true;
+      }
+
       if (account?.provider === "google" && account.id_token) {
-        if (!profile || !("sub" in profile) || !profile.email || !profile.name) {
+        if (!profile?.sub || !profile.email || !profile.name) {
           console.error("Profile data is incomplete:", profile);
           return false;
         }
 
         try {
-          const response = await fetch(`${apiUrl}/api/auth/google`, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              tokenId: account.id_token,
-              googleId: profile.sub,
-              email: profile.email,
-              name: profile.name,
-            }),
+          const data = await loginWithGoogle({
+            tokenId: account.id_token,
+            googleId: profile.sub,
+            email: profile.email,
+            name: profile.name,
           });
 
-          if (!response.ok) {
-            const errorData = await response.json();
-            console.error("Error from backend:", errorData);
-            return false;
-          }
-
-          const data = await response.json();
-          console.log("Respuesta de /api/auth/google:", data);
-          account.backendToken = data.token;
-          account.userId = data.usuarioId;
-          console.log("usuario id:", data.usuarioId);
+          applyBackendLogin(account, data);
           return true;
         } catch (error) {
-          console.error("Error contacting backend:", error);
+          logBackendError(error);
           return false;
         }
       }
@@ -59,15 +92,21 @@ const authOptions: NextAuthOptions = {
     async jwt({ token, account }) {
       if (account) {
         token.backendToken = account.backendToken as string;
+        token.backendTokenExpires = account.backendTokenExpires as number;
         token.id = account.userId as string;
+        token.rol = account.rol as Rol;
+        delete token.error;
+        return token;
       }
-      return token;
+      return ensureFreshBackendToken(token);
     },
     async session({ session, token }) {
       if (token.backendToken) {
         session.backendToken = token.backendToken as string;
         session.user.id = token.id as string;
+        session.user.rol = token.rol;
       }
+      session.error = token.error;
       return session;
     },
   },
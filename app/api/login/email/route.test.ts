@@ -0,0 +1,85 @@
+// @vitest-environment node
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "./route";
+import { sendLoginLinkEmail } from "@/lib/mail";
+import { mockFetch } from "@/test/utils";
+
+vi.mock("@/lib/mail", () => ({ sendLoginLinkEmail: vi.fn() }));
+
+const post = (body: unknown) =>
+  POST(new Request("http://localhost:3000/api/login/email", { method: "POST", body: JSON.stringify(body) }));
+
+describe("POST /api/login/email", () => {
+  beforeEach(() => {
+    vi.stubEnv("NEXTAUTH_URL", "http://localhost:3000");
+    vi.mocked(sendLoginLinkEmail).mockReset();
+  });
+
+  it("envía por correo el enlace con el token del backend", async () => {
+    const fetchMock = mockFetch({ body: { loginToken: "token-unico" } });
+
+    const response = await post({ email: "pesquera@golfo.test", callbackUrl: "/nuevo-aviso" });
+
+    expect(response.status).toBe(204);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://api.test/api/auth/email/link");
+    expect(JSON.parse(init.body)).toEqual({ email: "pesquera@golfo.test" });
+    expect(sendLoginLinkEmail).toHaveBeenCalledWith(
+      "pesquera@golfo.test",
+      "http://localhost:3000/login/verificar?token=token-unico&callbackUrl=%2Fnuevo-aviso"
+    );
+  });
+
+  it.each([["https://otro-sitio.test"], ["//otro-sitio.test"], ["/\\otro-sitio.test"]])(
+    "no acepta el destino %s fuera del sitio",
+    async (callbackUrl) => {
+      mockFetch({ body: { loginToken: "token-unico" } });
+
+      await post({ email: "pesquera@golfo.test", callbackUrl });
+
+      expect(vi.mocked(sendLoginLinkEmail).mock.calls[0][1]).toContain("callbackUrl=%2F");
+      expect(vi.mocked(sendLoginLinkEmail).mock.calls[0][1]).not.toContain("otro-sitio");
+    }
+  );
+
+  it("conserva la consulta del destino interno", async () => {
+    mockFetch({ body: { loginToken: "token-unico" } });
+
+    await post({ email: "pesquera@golfo.test", callbackUrl: "/detalles-empleo/aviso-1?accion=postular" });
+
+    expect(vi.mocked(sendLoginLinkEmail).mock.calls[0][1]).toContain(
+      "callbackUrl=%2Fdetalles-empleo%2Faviso-1%3Faccion%3Dpostular"
+    );
+  });
+
+  it("ignora las tabulaciones que el navegador descarta al resolver el destino", async () => {
+    mockFetch({ body: { loginToken: "token-unico" } });
+
+    await post({ email: "pesquera@golfo.test", callbackUrl: "/\t/otro-sitio.test" });
+
+    expect(vi.mocked(sendLoginLinkEmail).mock.calls[0][1]).toContain("callbackUrl=%2F");
+    expect(vi.mocked(sendLoginLinkEmail).mock.calls[0][1]).not.toContain("otro-sitio");
+  });
+
+  it("rechaza un email inválido sin llamar al backend", async () => {
+    const fetchMock = mockFetch();
+
+    const response = await post({ email: "no-es-un-email" });
+
+    expect(response.status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("informa si no se pudo enviar el correo", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    mockFetch({ body: { loginToken: "token-unico" } });
+    vi.mocked(sendLoginLinkEmail).mockRejectedValue(new Error("ECONNREFUSED"));
+
+    const response = await post({ email: "pesquera@golfo.test" });
+
+    expect(response.status).toBe(502);
+    await expect(response.json()).resolves.toEqual({
+      message: "No pudimos enviar el enlace. Intenta de nuevo más tarde.",
+    });
+  });
+});
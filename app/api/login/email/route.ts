@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { EMAIL_VERIFY_PATH, requestEmailLoginToken } from "@/lib/api/auth";
+import { sendLoginLinkEmail } from "@/lib/mail";
+import { safeCallbackUrl } from "@/lib/utils";
+
+const requestSchema = z.object({
+  email: z.string().trim().email(),
+  callbackUrl: z.string().nullish(),
+});
+
+export async function POST(request: Request) {
+  const parsed = requestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ message: "Ingresa un email válido" }, { status: 400 });
+  }
+  const { email, callbackUrl } = parsed.data;
+
+  try {
+    const { loginToken } = await requestEmailLoginToken(email);
+    const url = new URL(EMAIL_VERIFY_PATH, process.env.NEXTAUTH_URL ?? request.url);
+    url.searchParams.set("token", loginToken);
+    url.searchParams.set("callbackUrl", safeCallbackUrl(callbackUrl));
+    await sendLoginLinkEmail(email, url.toString());
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error sending login link:", error);
+    return Response.json({ message: "No pudimos enviar el enlace. Intenta de nuevo más tarde." }, { status: 502 });
+  }
+}
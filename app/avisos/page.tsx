@@ -1,21 +1,76 @@
 "use client";
 
-import { useState } from "react";
+import { Suspense, useCallback, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { X } from "lucide-react";
 import { OfertaList } from "@/components/ofertas/OfertaList";
-import { SearchFilters } from "@/components/ofertas/SearchFilters";
-import { useOfertas } from "@/lib/hooks/useOfertas";
+import { SearchFilters, SearchFiltersValue } from "@/components/ofertas/SearchFilters";
+import { useInfiniteOfertas } from "@/lib/hooks/useOfertas";
+import { useDebounce } from "use-debounce";
 import VolverButton from "@/components/ui/volver";
 import Loader from "@/components/ui/loader";
 import Error from "@/components/ui/error";
+import { Badge } from "@/components/ui/badge";
+import { jornadaSchema, modalidadSchema, periodoSalarioSchema } from "@/lib/types/iOferta";
 
 export default function AvisosPage() {
+  return (
+    <Suspense fallback={<Loader />}>
+      <AvisosContent />
+    </Suspense>
+  );
+}
+
+function AvisosContent() {
+  const router = useRouter();
+  // La etiqueta llega por URL desde las tarjetas para poder compartir el listado filtrado
+  const etiqueta = useSearchParams().get("etiqueta") ?? undefined;
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
-  const { data: ofertas, isLoading, error } = useOfertas()
+  const [salarioDesde, setSalarioDesde] = useState("");
+  const [periodoSalario, setPeriodoSalario] = useState("all");
+  const [modalidad, setModalidad] = useState("all");
+  const [jornada, setJornada] = useState("all");
+  const [localidad, setLocalidad] = useState("all");
+  const [verCerradas, setVerCerradas] = useState(false);
+  const [debouncedSearchTerm] = useDebounce(searchTerm, 400);
+  const [debouncedSalarioDesde] = useDebounce(salarioDesde, 400);
+  const { data, isLoading, error, hasNextPage, isFetchingNextPage, fetchNextPage } = useInfiniteOfertas({
+    q: debouncedSearchTerm.trim() || undefined,
+    categoriaId: selectedCategory !== "all" ? selectedCategory : undefined,
+    habilitado: true,
+    salarioDesde: Number(debouncedSalarioDesde) || undefined,
+    periodoSalario: periodoSalarioSchema.safeParse(periodoSalario).data,
+    modalidad: modalidadSchema.safeParse(modalidad).data,
+    jornada: jornadaSchema.safeParse(jornada).data,
+    localidad: localidad !== "all" ? localidad : undefined,
+    etiqueta,
+    soloAbiertas: !verCerradas,
+    soloPublicadas: true,
+  });
+  const hasActiveFilters =
+    !!debouncedSearchTerm.trim() ||
+    selectedCategory !== "all" ||
+    !!debouncedSalarioDesde ||
+    periodoSalario !== "all" ||
+    modalidad !== "all" ||
+    jornada !== "all" ||
+    localidad !== "all" ||
+    !!etiqueta;
+  const ofertas = useMemo(() => data?.pages.flatMap((page) => page.ofertas) ?? [], [data]);
 
-  const handleFilterChange = (newFilters: { searchTerm?: string; selectedCategory?: string }) => {
+  const handleLoadMore = useCallback(() => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const handleFilterChange = (newFilters: SearchFiltersValue) => {
     if (newFilters.searchTerm !== undefined) setSearchTerm(newFilters.searchTerm);
     if (newFilters.selectedCategory !== undefined) setSelectedCategory(newFilters.selectedCategory);
+    if (newFilters.salarioDesde !== undefined) setSalarioDesde(newFilters.salarioDesde);
+    if (newFilters.periodoSalario !== undefined) setPeriodoSalario(newFilters.periodoSalario);
+    if (newFilters.modalidad !== undefined) setModalidad(newFilters.modalidad);
+    if (newFilters.jornada !== undefined) setJornada(newFilters.jornada);
+    if (newFilters.localidad !== undefined) setLocalidad(newFilters.localidad);
   };
 
   if (isLoading) { return <Loader />; }
@@ -30,7 +85,44 @@ export default function AvisosPage() {
         <p className="text-muted-foreground">Encuentra las mejores oportunidades laborales en Puerto Madryn.</p>
       </div>
       <SearchFilters onFilterChange={handleFilterChange} />
-      <OfertaList searchTerm={searchTerm} selectedCategoria={selectedCategory} ofertas={ofertas} />
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        {etiqueta ? (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">Etiqueta:</span>
+            <Badge variant="secondary" className="gap-1 pr-1">
+              #{etiqueta}
+              <button
+                type="button"
+                onClick={() => router.replace("/avisos", { scroll: false })}
+                className="rounded-full hover:bg-primary/20"
+                aria-label="Quitar filtro de etiqueta"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          </div>
+        ) : (
+          <span />
+        )}
+        <label className="flex items-center gap-2 text-sm text-muted-foreground cursor-pointer">
+          <input
+            type="checkbox"
+            checked={verCerradas}
+            onChange={(e) => setVerCerradas(e.target.checked)}
+            className="h-4 w-4 accent-primary"
+          />
+          Ver también cerradas
+        </label>
+      </div>
+      <OfertaList
+        searchTerm={debouncedSearchTerm}
+        selectedCategoria={selectedCategory}
+        ofertas={ofertas}
+        hasMore={hasNextPage}
+        isLoadingMore={isFetchingNextPage}
+        onLoadMore={handleLoadMore}
+        hasActiveFilters={hasActiveFilters}
+      />
       <div className="text-center mt-6 bg-secondary/20 p-4 rounded-lg">
         <p className="text-foreground">
           ¡Estamos creciendo! No dudes en ofrecer tu puesto de trabajo a la comunidad. ¿Tienes un empleo para ofrecer?{" "}
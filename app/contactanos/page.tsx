@@ -9,7 +9,6 @@ import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Loader2, Anchor, CheckCircle2 } from "lucide-react";
-import { useAuthCheck } from "@/lib/hooks/useAuthCheck";
 import { useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -85,8 +84,6 @@ export default function ContactUs() {
     },
   });
 
-  useAuthCheck();
-
   const onSubmit = async (data: FormData) => {
     setSubmitSuccess(null);
     setIsSubmitting(true);
@@ -1,9 +1,13 @@
 "use client";
 
-import { useState } from "react";
-import { useRouter, useParams } from "next/navigation";
+import { useEffect, useRef, useState } from "react";
+import { useRouter, useParams, usePathname, useSearchParams } from "next/navigation";
 import { useSession } from "next-auth/react";
 import { useOfertaBySlug } from "@/lib/hooks/useOfertas";
+import { useAddFavorito } from "@/lib/hooks/useFavoritos";
+import { loginUrl, PendingAction, readPendingAction } from "@/lib/loginRedirect";
+import { telefonoPostulacionHref, whatsappPostulacionHref } from "@/lib/postulacion";
+import { isCerrada } from "@/lib/cierre";
 import OfertaHeader from "@/components/ofertas/detalles/OfertaHeader";
 import OfertaActions from "@/components/ofertas/detalles/OfertaActions";
 import OfertaDescription from "@/components/ofertas/detalles/OfertaDescription";
@@ -11,10 +15,13 @@ import OfertaDetails from "@/components/ofertas/detalles/OfertaDetails";
 import ApplyModal from "@/components/ofertas/detalles/ApplyModal";
 import SuccessAlert from "@/components/ofertas/detalles/SuccessAlert";
 import VolverButton from "@/components/ui/volver";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import Loader from "@/components/ui/loader";
 
 export default function OfertaDetalle() {
   const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
   const { slug } = useParams();
   const { data: session, status } = useSession();
   const token = session?.backendToken || "";
@@ -23,19 +30,48 @@ export default function OfertaDetalle() {
   const [showApplyModal, setShowApplyModal] = useState(false);
   const [showSuccessAlert, setShowSuccessAlert] = useState(false);
   const isOwnPost = oferta?.usuarioPublicador?.email === userEmail;
+  const cerrada = !!oferta && isCerrada(oferta);
+  const { mutate: addFavorite } = useAddFavorito();
+  const pendingAction = readPendingAction(searchParams);
+  const pendingActionHandled = useRef(false);
+
+  const handleLoginRequired = (accion: PendingAction) => {
+    router.push(loginUrl(pathname, accion));
+  };
 
   const handleApply = () => {
+    if (cerrada) return;
     if (status === "unauthenticated") {
-      router.push("/login");
+      handleLoginRequired("postular");
       return;
     }
     if (oferta?.formaPostulacion === "MAIL") {
       setShowApplyModal(true);
     } else if (oferta?.formaPostulacion === "LINK" && oferta?.contactoPostulacion) {
       window.open(oferta.contactoPostulacion, "_blank");
+    } else if (oferta?.formaPostulacion === "WHATSAPP") {
+      const href = whatsappPostulacionHref(oferta);
+      if (href) window.open(href, "_blank");
+    } else if (oferta?.formaPostulacion === "TELEFONO") {
+      const href = telefonoPostulacionHref(oferta);
+      if (href) window.location.href = href;
     }
   };
 
+  // Retoma la acción que el usuario había empezado antes de iniciar sesión
+  useEffect(() => {
+    if (!pendingAction || pendingActionHandled.current || status !== "authenticated" || !oferta) return;
+    pendingActionHandled.current = true;
+    // Se limpia la URL para que recargar la página no repita la acción
+    router.replace(pathname, { scroll: false });
+
+    if (pendingAction === "postular" && oferta.formaPostulacion === "MAIL" && !cerrada) {
+      setShowApplyModal(true);
+    } else if (pendingAction === "guardar" && !isOwnPost) {
+      addFavorite({ ofertaId: oferta.id, token });
+    }
+  }, [pendingAction, status, oferta, cerrada, isOwnPost, token, pathname, router, addFavorite]);
+
   if (isLoading) { return <Loader />; }
 
   if (error || !oferta) {
@@ -50,6 +86,17 @@ export default function OfertaDetalle() {
     <div className="container mx-auto py-6 px-4">
       <VolverButton />
 
+      {cerrada && (
+        <Alert className="mb-6 border-gray-300 bg-gray-50">
+          <AlertTitle className="font-semibold">Búsqueda finalizada</AlertTitle>
+          <AlertDescription>
+            Esta oferta cerró el{" "}
+            {new Date(oferta.fechaCierre as string).toLocaleDateString("es-AR", { timeZone: "UTC" })} y ya no
+            recibe postulaciones.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <div className="lg:col-span-2">
           <OfertaHeader oferta={oferta} />
@@ -60,6 +107,7 @@ export default function OfertaDetalle() {
               token={token}
               status={status}
               onApply={handleApply}
+              onLoginRequired={() => handleLoginRequired("guardar")}
             />
         </div>
           <OfertaDescription oferta={oferta} />
@@ -73,6 +121,7 @@ export default function OfertaDetalle() {
               token={token}
               status={status}
               onApply={handleApply}
+              onLoginRequired={() => handleLoginRequired("guardar")}
             />
           </div>
         </div>
@@ -2,6 +2,7 @@ import { Metadata } from "next";
 import { fetchOfertaBySlug } from "@/lib/api/ofertas";
 import { fetchRandomCategoriaImage } from "@/lib/api/categorias";
 import { Oferta } from "@/lib/types/iOferta";
+import { getLocalidad } from "@/lib/localidades";
 import OfertaDetalle from "./DetallesEmpleo";
 
 export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }): Promise<Metadata> {
@@ -21,7 +22,7 @@ export async function generateMetadata({ params }: { params: Promise<{ slug: str
     }
     
     const title = `${oferta.titulo} - ${oferta.empresaConsultora} | Madryn Empleos`;
-    const description = `Oferta laboral para ${oferta.titulo} en ${oferta.empresaConsultora}, Puerto Madryn, Chubut, Argentina. Postúlate ahora en Madryn Empleos.`;
+    const description = `Oferta laboral para ${oferta.titulo} en ${oferta.empresaConsultora}, ${getLocalidad(oferta)}, Chubut, Argentina. Postúlate ahora en Madryn Empleos.`;
 
     return {
         title,
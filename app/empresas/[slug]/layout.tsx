@@ -0,0 +1,19 @@
+import { Metadata } from "next";
+import { fetchEmpresaBySlug } from "@/lib/api/empresas";
+
+export async function generateMetadata({ params }: { params: Promise<{ slug: string }> }): Promise<Metadata> {
+  const { slug } = await params;
+  try {
+    const empresa = await fetchEmpresaBySlug(slug);
+    return {
+      title: `${empresa.nombre} | Madryn Empleos`,
+      description: empresa.descripcion || `Ofertas de empleo de ${empresa.nombre} en Madryn Empleos.`,
+    };
+  } catch {
+    return { title: "Empresa | Madryn Empleos" };
+  }
+}
+
+export default function EmpresaLayout({ children }: { children: React.ReactNode }) {
+  return <>{children}</>;
+}
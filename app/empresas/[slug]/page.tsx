@@ -0,0 +1,63 @@
+"use client";
+
+import { useState } from "react";
+import { useParams } from "next/navigation";
+import Image from "next/image";
+import { Building, Globe } from "lucide-react";
+import { OfertaList } from "@/components/ofertas/OfertaList";
+import { useEmpresaBySlug } from "@/lib/hooks/useEmpresas";
+import { useOfertasByEmpresa } from "@/lib/hooks/useOfertas";
+import { getLogoUrl } from "@/lib/empresas";
+import Loader from "@/components/ui/loader";
+import Error from "@/components/ui/error";
+import VolverButton from "@/components/ui/volver";
+
+export default function EmpresaPage() {
+  const { slug } = useParams();
+  const { data: empresa, isLoading: empresaLoading, error: empresaError } = useEmpresaBySlug(slug as string);
+  const { data: ofertas, isLoading: ofertasLoading, error: ofertasError } = useOfertasByEmpresa(empresa?.id);
+  const [logoError, setLogoError] = useState(false);
+
+  if (empresaLoading || ofertasLoading) { return <Loader />; }
+
+  if (empresaError || ofertasError || !empresa) { return <Error error={empresaError ?? ofertasError} />; }
+
+  const logoUrl = getLogoUrl(empresa.logoUrl);
+
+  return (
+    <div className="container min-h-screen mx-auto py-6 px-4">
+      <VolverButton />
+      <div className="flex flex-col items-center text-center gap-3 mb-10">
+        {logoError || !logoUrl ? (
+          <div className="rounded-full h-20 w-20 flex items-center justify-center bg-primary/10">
+            <Building className="h-10 w-10 text-primary" />
+          </div>
+        ) : (
+          <Image
+            src={logoUrl}
+            alt={empresa.nombre}
+            width={80}
+            height={80}
+            className="rounded-full h-20 w-20 object-cover"
+            onError={() => setLogoError(true)}
+          />
+        )}
+        <h1 className="text-3xl font-bold text-primary uppercase">{empresa.nombre}</h1>
+        {empresa.descripcion && <p className="text-muted-foreground max-w-2xl">{empresa.descripcion}</p>}
+        {empresa.sitioWeb && (
+          <a
+            href={empresa.sitioWeb}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-primary underline"
+          >
+            <Globe className="h-4 w-4" />
+            {empresa.sitioWeb.replace(/^https?:\/\//, "")}
+          </a>
+        )}
+      </div>
+      <h2 className="text-xl font-semibold text-primary mb-4">Ofertas activas</h2>
+      <OfertaList searchTerm="" selectedCategoria="all" ofertas={ofertas} showEditOptions={false} />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Avisos por Etiqueta | Madryn Empleos",
+};
+
+export default function EtiquetaLayout({ children }: { children: React.ReactNode }) {
+  return <>{children}</>;
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { OfertaList } from "@/components/ofertas/OfertaList";
+import { useOfertasByEtiqueta } from "@/lib/hooks/useOfertas";
+import { avisosPorEtiquetaHref } from "@/lib/etiquetas";
+import Loader from "@/components/ui/loader";
+import Error from "@/components/ui/error";
+import VolverButton from "@/components/ui/volver";
+
+export default function EtiquetaPage() {
+  const { tag } = useParams();
+  const etiqueta = decodeURIComponent(tag as string);
+  const { data: ofertas, isLoading, error } = useOfertasByEtiqueta(etiqueta);
+
+  if (isLoading) { return <Loader />; }
+
+  if (error) { return <Error error={error} />; }
+
+  return (
+    <div className="container min-h-screen mx-auto py-6 px-4">
+      <VolverButton />
+      <div className="text-center mb-10">
+        <h1 className="text-3xl font-bold text-primary text-center mb-2 uppercase">#{etiqueta}</h1>
+        <p className="text-muted-foreground text-center mb-2">
+          Ofertas de empleo etiquetadas como &quot;{etiqueta}&quot;.{" "}
+          <Link href={avisosPorEtiquetaHref(etiqueta)} className="text-primary underline">
+            Combinar con otros filtros
+          </Link>
+        </p>
+      </div>
+      <OfertaList searchTerm="" selectedCategoria="all" ofertas={ofertas} showEditOptions={false} />
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 "use client";
 
+import { useState } from "react";
 import { useSession } from "next-auth/react";
 import { useRouter } from "next/navigation";
 import { OfertaList } from "@/components/ofertas/OfertaList";
+import { RenovarDialog } from "@/components/ofertas/RenovarDialog";
+import { MisBorradores } from "@/components/ofertas/MisBorradores";
 import { Anchor } from "lucide-react";
 import { useUserOfertas, useDeleteOferta } from "@/lib/hooks/useOfertas";
 import VolverButton from "@/components/ui/volver";
@@ -15,11 +18,8 @@ export default function MisAvisosPage() {
   const token = session?.backendToken || "";
   const { data: ofertas, isLoading, error } = useUserOfertas(token);
   const deleteMutation = useDeleteOferta();
-
-  if (status === "unauthenticated") {
-    router.push("/login");
-    return null;
-  }
+  const [renovandoId, setRenovandoId] = useState<string | null>(null);
+  const renovando = ofertas?.find((oferta) => oferta.id === renovandoId);
 
   if (status === "loading" || isLoading) { return <Loader />; }
   if (error) {
@@ -30,6 +30,10 @@ export default function MisAvisosPage() {
     router.push(`/editar-aviso/${ofertaId}`);
   };
 
+  const handleDuplicar = (ofertaId: string) => {
+    router.push(`/nuevo-aviso?duplicar=${ofertaId}`);
+  };
+
   const handleDelete = (ofertaId: string) => {
     deleteMutation.mutate(
       { id: ofertaId, token },
@@ -61,6 +65,8 @@ export default function MisAvisosPage() {
           showEditOptions={true}
           onEdit={handleEdit}
           onDelete={handleDelete}
+          onRenovar={setRenovandoId}
+          onDuplicar={handleDuplicar}
         />
       ) : (
         <div className="text-center py-8 px-4 bg-secondary/20 rounded-lg border border-secondary">
@@ -68,6 +74,8 @@ export default function MisAvisosPage() {
           <p className="text-foreground">Aún no hiciste ninguna publicacion.</p>
         </div>
       )}
+      <MisBorradores usuarioId={session?.user?.id ?? ""} token={token} />
+      {renovando && <RenovarDialog oferta={renovando} token={token} onClose={() => setRenovandoId(null)} />}
     </div>
   );
 }
\ No newline at end of file
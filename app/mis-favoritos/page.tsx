@@ -1,7 +1,6 @@
 "use client";
 
 import { useSession } from "next-auth/react";
-import { useRouter } from "next/navigation";
 import { OfertaList } from "@/components/ofertas/OfertaList";
 import { useUserFavoritos } from "@/lib/hooks/useFavoritos";
 import { Oferta } from "@/lib/types/iOferta";
@@ -12,16 +11,10 @@ import { Anchor } from "lucide-react";
 
 export default function FavoritosPage() {
   const { data: session, status } = useSession();
-  const router = useRouter();
   const token = session?.backendToken || "";
   const { data: favoritos, isLoading, error } = useUserFavoritos(token);
 
-  if (status === "unauthenticated") {
-    router.push("/login");
-    return null;
-  }
-
-  if (isLoading) { return <Loader />; }
+  if (status === "loading" || isLoading) { return <Loader />; }
 
   if (error) { return <Error error={error} />; }
 
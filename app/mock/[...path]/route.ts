@@ -0,0 +1,16 @@
+import { isMockApiEnabled } from "@/lib/api/client";
+import { handleMockRequest } from "@/lib/mock/handlers";
+
+export const dynamic = "force-dynamic";
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+async function handler(request: Request, { params }: RouteContext) {
+  if (!isMockApiEnabled()) {
+    return new Response("Not Found", { status: 404 });
+  }
+  const { path } = await params;
+  return handleMockRequest(request, `/${path.join("/")}`);
+}
+
+export { handler as GET, handler as POST, handler as PUT, handler as DELETE };
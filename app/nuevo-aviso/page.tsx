@@ -1,181 +1,135 @@
 "use client";
 
 import { useSession } from "next-auth/react";
-import { useRouter } from "next/navigation";
-import { useForm } from "react-hook-form";
+import { useRouter, useSearchParams } from "next/navigation";
+import { DefaultValues, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useCategorias } from "@/lib/hooks/useCategorias";
+import { useOfertaById } from "@/lib/hooks/useOfertas";
+import { useBorradores, useEliminarBorrador, useGuardarBorrador } from "@/lib/hooks/useBorradores";
+import { nuevoBorradorId, tituloBorrador } from "@/lib/borradores";
 import { createOferta } from "@/lib/api/ofertas";
-import { Loader2, Anchor, X, CheckCircle2 } from "lucide-react";
-import { useAuthCheck } from "@/lib/hooks/useAuthCheck";
-import { useState } from "react";
+import { CheckCircle2, FileText } from "lucide-react";
+import { Suspense, useEffect, useRef, useState } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useDebouncedCallback } from "use-debounce";
+import Link from "next/link";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
-import RteEditor from "@/components/ui/RteEditor";
+import { OfertaForm } from "@/components/ofertas/OfertaForm";
+import { datosDesdeFormulario, ofertaFormSchema, OfertaFormValues, VALORES_INICIALES, valoresDesdeOferta } from "@/lib/ofertaForm";
 import VolverButton from "@/components/ui/volver";
 import Loader from "@/components/ui/loader";
 import Error from "@/components/ui/error";
+import { Borrador } from "@/lib/types/iBorrador";
 
-const formSchema = z
-  .object({
-    titulo: z
-      .string()
-      .min(1, "El título es obligatorio")
-      .max(150, "El título no puede superar los 150 caracteres")
-      .trim()
-      .refine((val) => val.length > 0 && val.trim().length > 0, {
-        message: "El título no puede ser solo espacios",
-      })
-      .refine((val) => !/[^a-zA-Z0-9\sáéíóúÁÉÍÓÚñÑ./]/.test(val), {
-        message: "El título no puede contener caracteres especiales raros (excepto /)",
-      }),
-    descripcion: z
-      .string()
-      .min(1, "La descripción es obligatoria")
-      .max(5000, "La descripción no puede superar los 5000 caracteres")
-      .trim()
-      .refine((val) => val.length > 0 && val.trim().length > 0, {
-        message: "La descripción no puede ser solo espacios",
-      }),
-    empresaConsultora: z
-      .string()
-      .min(1, "El nombre de la empresa es obligatorio")
-      .max(150, "El nombre de la empresa no puede superar los 150 caracteres")
-      .trim()
-      .refine((val) => val.length > 0 && val.trim().length > 0, {
-        message: "La empresa no puede ser solo espacios",
-      })
-      .refine((val) => !/[^a-zA-Z0-9\sáéíóúÁÉÍÓÚ./]/.test(val), {
-        message: "La empresa no puede contener caracteres especiales raros",
-      }),
-    categoria: z.string().min(1, "Debes seleccionar una categoría"),
-    formaPostulacion: z.enum(["MAIL", "LINK"], {
-      required_error: "Debes seleccionar una forma de postulación",
-    }),
-    emailContacto: z
-      .string()
-      .email("Debes ingresar un email válido")
-      .optional()
-      .nullable(),
-    linkPostulacion: z
-      .string()
-      .url("Debes ingresar una URL válida (ej: https://example.com)")
-      .trim()
-      .refine((val) => !val || (val.length > 0 && val.trim().length > 0), {
-        message: "El link no puede ser solo espacios",
-      })
-      .optional()
-      .nullable(),
-    fechaCierre: z.string().optional().nullable(),
-    logo: z
-      .instanceof(File)
-      .optional()
-      .refine((file) => !file || file.size <= 5 * 1024 * 1024, {
-        message: "El archivo no puede superar los 5MB",
-      })
-      .refine((file) => !file || ["image/png", "image/jpeg", "image/jpg"].includes(file.type), {
-        message: "Solo se permiten imágenes en formato PNG, JPEG o JPG",
-      }),
-  })
-  .refine(
-    (data) => {
-      if (data.formaPostulacion === "MAIL" && (!data.emailContacto || data.emailContacto.trim() === "")) {
-        return false;
-      }
-      return true;
-    },
-    {
-      message: "Debes ingresar un email válido para postulación por email",
-      path: ["emailContacto"],
-    }
-  )
-  .refine(
-    (data) => {
-      if (data.formaPostulacion === "LINK" && (!data.linkPostulacion || data.linkPostulacion.trim() === "")) {
-        return false;
-      }
-      return true;
-    },
-    {
-      message: "Debes ingresar una URL válida para postulación por enlace",
-      path: ["linkPostulacion"],
-    }
-  )
-  .refine(
-    (data) => {
-      if (data.fechaCierre && new Date(data.fechaCierre) < new Date()) {
-        return false;
-      }
-      return true;
-    },
-    {
-      message: "La fecha de cierre no puede ser anterior a hoy",
-      path: ["fechaCierre"],
-    }
+export default function PublicarEmpleoPage() {
+  return (
+    <Suspense fallback={<Loader />}>
+      <PublicarEmpleoContent />
+    </Suspense>
   );
+}
 
-type FormData = z.infer<typeof formSchema>;
-
-export default function PublicarEmpleoPage() {
-  const { data: session, status } = useSession();
+function PublicarEmpleoContent() {
+  const { data: session } = useSession();
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const usuarioId = session?.user?.id ?? "";
+  const token = session?.backendToken ?? "";
+  // "Duplicar" desde Mis avisos llega con el id del aviso a copiar
+  const duplicarId = searchParams.get("duplicar") ?? "";
+  const { data: ofertaOriginal } = useOfertaById(duplicarId);
+  const duplicado = useRef(false);
+  // "Continuar" desde Mis borradores llega con el id del borrador a retomar
+  const borradorParam = searchParams.get("borrador");
+  const [borradorId, setBorradorId] = useState(() => borradorParam ?? nuevoBorradorId());
+  const [ofrecerBorrador, setOfrecerBorrador] = useState(!borradorParam && !duplicarId);
+  const borradorRetomado = useRef(false);
+  const { data: borradores } = useBorradores(usuarioId, token);
+  const { mutate: guardarBorrador } = useGuardarBorrador();
+  const { mutate: eliminarBorrador } = useEliminarBorrador();
+  const borradoresPendientes = borradores?.filter((borrador) => borrador.id !== borradorId) ?? [];
   const { data: categorias, isLoading: categoriasLoading, error: categoriasError } = useCategorias();
   const [submitSuccess, setSubmitSuccess] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const queryClient = useQueryClient();
 
-  type CreateJobOfferData = {
-    titulo: string;
-    descripcion: string;
-    usuarioId: string;
-    empresaConsultora: string;
-    fechaCierre: string | null;
-    formaPostulacion: string;
-    emailContacto: string | null;
-    linkPostulacion: string | null;
-    categoriaId: string;
-    logo: File | null;
-  };
-
   const createJobOfferMutation = useMutation({
-    mutationFn: ({ data, token }: { data: CreateJobOfferData; token: string }) => createOferta(data, token),
+    mutationFn: ({ data, token }: { data: Parameters<typeof createOferta>[0]; token: string }) => createOferta(data, token),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["jobPosts"] });
+      autoguardar.cancel();
+      sincronizarBorrador.cancel();
+      eliminarBorrador({ usuarioId, id: borradorId, token });
       setSubmitSuccess(
         "¡Oferta enviada con éxito! Será publicada en la web tras ser verificada por nuestro equipo. Luego de eso, recibirás un email de confirmación."
       );
       form.reset();
       setTimeout(() => router.push("/"), 5000);
-    }
+    },
+    onError: (err) => {
+      console.error("Error al publicar la oferta:", err);
+      setSubmitError(err instanceof Error ? err.message : "Error desconocido al publicar la oferta");
+    },
   });
 
-  const form = useForm<FormData>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      titulo: "",
-      descripcion: "",
-      empresaConsultora: "",
-      categoria: "",
-      formaPostulacion: "MAIL",
-      emailContacto: null,
-      linkPostulacion: null,
-      fechaCierre: null,
-      logo: undefined,
-    },
+  const form = useForm<OfertaFormValues>({
+    resolver: zodResolver(ofertaFormSchema),
+    defaultValues: VALORES_INICIALES,
   });
 
-  useAuthCheck();
+  // Se guarda un rato después de la última tecla para no escribir en cada cambio
+  const autoguardar = useDebouncedCallback((datos: DefaultValues<OfertaFormValues>) => {
+    if (!usuarioId) return;
+    const borrador: Borrador = { id: borradorId, datos: { ...datos, logo: undefined }, actualizado: new Date().toISOString() };
+    guardarBorrador({ usuarioId, borrador, token, soloLocal: true });
+    sincronizarBorrador(borrador);
+  }, 1000);
+
+  // La copia del servidor espera a que se deje de escribir un buen rato
+  const sincronizarBorrador = useDebouncedCallback((borrador: Borrador) => {
+    guardarBorrador({ usuarioId, borrador, token });
+  }, 15000);
+
+  useEffect(() => {
+    const subscription = form.watch((values, { type }) => {
+      // Sólo lo que escribe el usuario; los valores cargados por código no crean borradores
+      if (type === "change") autoguardar(values as DefaultValues<OfertaFormValues>);
+    });
+    return () => subscription.unsubscribe();
+  }, [form, autoguardar]);
+
+  // Lo que quedó sin guardar se escribe igual al salir de la página
+  useEffect(
+    () => () => {
+      autoguardar.flush();
+      sincronizarBorrador.flush();
+    },
+    [autoguardar, sincronizarBorrador]
+  );
 
-  if (status === "unauthenticated") {
-    router.push("/login");
-    return null;
-  }
+  useEffect(() => {
+    if (!borradorParam || borradorRetomado.current || !borradores) return;
+    borradorRetomado.current = true;
+    const borrador = borradores.find((b) => b.id === borradorParam);
+    if (borrador) form.reset(borrador.datos as DefaultValues<OfertaFormValues>);
+  }, [borradorParam, borradores, form]);
+
+  const handleRetomarBorrador = (borrador: Borrador) => {
+    autoguardar.cancel();
+    setBorradorId(borrador.id);
+    form.reset(borrador.datos as DefaultValues<OfertaFormValues>);
+    setOfrecerBorrador(false);
+  };
+
+  useEffect(() => {
+    if (!ofertaOriginal || duplicado.current) return;
+    duplicado.current = true;
+    // Las fechas y el logo se eligen de nuevo
+    form.reset({ ...valoresDesdeOferta(ofertaOriginal), fechaProgramada: null, fechaCierre: null, logoUrl: null });
+  }, [ofertaOriginal, form]);
 
   if (categoriasLoading) { return <Loader />; }
 
@@ -185,28 +139,14 @@ export default function PublicarEmpleoPage() {
     return <div className="text-center py-8">No hay categorías disponibles.</div>;
   }
 
-  const onSubmit = async (data: FormData) => {
+  const onSubmit = async (values: OfertaFormValues) => {
+    setSubmitError(null);
     setSubmitSuccess(null);
     setIsSubmitting(true);
     try {
-      const createData: CreateJobOfferData = {
-        titulo: data.titulo,
-        descripcion: data.descripcion,
-        usuarioId: session?.user?.id || "",
-        empresaConsultora: data.empresaConsultora,
-        fechaCierre: data.fechaCierre ? new Date(data.fechaCierre).toISOString() : null,
-        formaPostulacion: data.formaPostulacion,
-        emailContacto: data.formaPostulacion === "MAIL" ? data.emailContacto ?? null : null,
-        linkPostulacion: data.formaPostulacion === "LINK" ? data.linkPostulacion ?? null : null,
-        categoriaId: data.categoria,
-        logo: data.logo ?? null,
-      };
-
-      console.log("Create data:", createData);
-
       await createJobOfferMutation.mutateAsync({
-        data: createData,
-        token: session?.backendToken || "",
+        data: { ...datosDesdeFormulario(values), usuarioId },
+        token,
       });
     } finally {
       setIsSubmitting(false);
@@ -229,222 +169,52 @@ export default function PublicarEmpleoPage() {
         <p className="text-center text-muted-foreground">
           Completa el formulario a continuación para conectar tu empresa con talento local.
         </p>
-      </header>
-      <Form {...form}>
-        <form
-          onSubmit={form.handleSubmit(onSubmit)}
-          className="max-w-2xl mx-auto space-y-6 bg-gradient-to-b from-white to-secondary/10 p-6 rounded-lg border border-secondary/30 shadow-sm"
-        >
-          <FormField
-            control={form.control}
-            name="titulo"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel className="text-primary font-medium">Título del empleo</FormLabel>
-                <FormControl>
-                  <Input
-                    placeholder="ej: Cocinero/a"
-                    {...field}
-                    className="border-primary/20 focus-visible:ring-primary"
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <FormField
-            control={form.control}
-            name="logo"
-            render={({ field: { onChange, value, ...field } }) => (
-              <FormItem>
-                <FormLabel className="text-primary font-medium">Logo de la empresa (opcional)</FormLabel>
-                <FormControl>
-                  <Input
-                    type="file"
-                    accept="image/png, image/jpeg, image/jpg"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      onChange(file);
-                    }}
-                    className="border-primary/20 cursor-pointer focus-visible:ring-primary"
-                    {...field}
-                  />
-                </FormControl>
-                {value && (
-                  <div className="mt-2 flex items-center space-x-2">
-                    <span className="text-sm text-muted-foreground">{value.name}</span>
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      className="text-destructive border-destructive hover:bg-destructive"
-                      onClick={() => {
-                        onChange(undefined);
-                        const input = document.querySelector('input[name="logo"]') as HTMLInputElement;
-                        if (input) input.value = "";
-                      }}
-                    >
-                      <X className="h-6 w-6" />
-                    </Button>
-                  </div>
+        {ofertaOriginal && (
+          <p className="max-w-2xl mx-auto text-center text-sm bg-secondary/20 border border-secondary rounded-md p-3">
+            Estás creando un aviso nuevo a partir de &quot;{ofertaOriginal.titulo}&quot;. Revisa los datos y elige una
+            nueva fecha de cierre antes de publicarlo.
+          </p>
+        )}
+        {ofrecerBorrador && borradoresPendientes.length > 0 && (
+          <Alert className="max-w-2xl mx-auto border-amber-300 bg-amber-50">
+            <FileText className="h-4 w-4" />
+            <AlertTitle className="font-semibold">Tenés un borrador sin publicar</AlertTitle>
+            <AlertDescription>
+              <p>
+                &quot;{tituloBorrador(borradoresPendientes[0])}&quot;, guardado el{" "}
+                {new Date(borradoresPendientes[0].actualizado).toLocaleString("es-AR", { dateStyle: "short", timeStyle: "short" })}.
+                El logo no se guarda en el borrador.
+              </p>
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <Button type="button" size="sm" onClick={() => handleRetomarBorrador(borradoresPendientes[0])}>
+                  Continuar borrador
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => eliminarBorrador({ usuarioId, id: borradoresPendientes[0].id, token })}
+                >
+                  Descartar
+                </Button>
+                {borradoresPendientes.length > 1 && (
+                  <Link href="/mis-avisos#mis-borradores" className="text-sm text-primary underline">
+                    Ver todos mis borradores
+                  </Link>
                 )}
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <FormField
-            control={form.control}
-            name="descripcion"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel className="text-primary font-medium">Descripción</FormLabel>
-                <FormControl>
-                  <RteEditor content={field.value} onChange={(val) => field.onChange(val)} />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <FormField
-            control={form.control}
-            name="empresaConsultora"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel className="text-primary font-medium">Empresa</FormLabel>
-                <FormControl>
-                  <Input
-                    placeholder="ej: Restaurante Madryn"
-                    {...field}
-                    className="border-primary/20 focus-visible:ring-primary"
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <FormField
-            control={form.control}
-            name="categoria"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel className="text-primary font-medium">Categoría</FormLabel>
-                <Select onValueChange={field.onChange} value={field.value}>
-                  <FormControl>
-                    <SelectTrigger className="border-primary/20 focus:ring-primary">
-                      <SelectValue placeholder="Selecciona una categoría" />
-                    </SelectTrigger>
-                  </FormControl>
-                  <SelectContent>
-                    {categorias.map((cat) => (
-                      <SelectItem key={cat.id} value={cat.id}>
-                        {cat.nombre}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <FormField
-            control={form.control}
-            name="formaPostulacion"
-            render={({ field }) => (
-              <FormItem className="space-y-3">
-                <FormLabel className="text-primary font-medium">Forma de postulación</FormLabel>
-                <FormControl>
-                  <RadioGroup onValueChange={field.onChange} value={field.value} className="flex flex-col space-y-1">
-                    <FormItem className="flex items-center space-x-3 space-y-0">
-                      <FormControl>
-                        <RadioGroupItem value="MAIL" />
-                      </FormControl>
-                      <FormLabel className="font-normal">Email</FormLabel>
-                    </FormItem>
-                    <FormItem className="flex items-center space-x-3 space-y-0">
-                      <FormControl>
-                        <RadioGroupItem value="LINK" />
-                      </FormControl>
-                      <FormLabel className="font-normal">Link externo</FormLabel>
-                    </FormItem>
-                  </RadioGroup>
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          {form.watch("formaPostulacion") === "MAIL" && (
-            <FormField
-              control={form.control}
-              name="emailContacto"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-primary font-medium">Email de contacto</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="contacto@empresa.com"
-                      {...field}
-                      value={field.value ?? ""}
-                      className="border-primary/20 focus-visible:ring-primary"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          )}
-          {form.watch("formaPostulacion") === "LINK" && (
-            <FormField
-              control={form.control}
-              name="linkPostulacion"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel className="text-primary font-medium">Link de postulación</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="https://..."
-                      {...field}
-                      value={field.value ?? ""}
-                      className="border-primary/20 focus-visible:ring-primary"
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-          )}
-          <FormField
-            control={form.control}
-            name="fechaCierre"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel className="text-primary font-medium">Fecha de cierre (opcional)</FormLabel>
-                <FormControl>
-                  <Input
-                    type="date"
-                    {...field}
-                    value={field.value ?? ""}
-                    className="border-primary/20 focus-visible:ring-primary"
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
-          <Button type="submit" className="w-full bg-primary text-white hover:bg-primary/90" disabled={isSubmitting}>
-            {isSubmitting ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Publicando...
-              </>
-            ) : (
-              <>
-                <Anchor className="mr-2 h-4 w-4" />
-                Publicar empleo
-              </>
-            )}
-          </Button>
-        </form>
-      </Form>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+      </header>
+      <OfertaForm
+        mode="create"
+        form={form}
+        categorias={categorias}
+        onSubmit={onSubmit}
+        isSubmitting={isSubmitting}
+        submitError={submitError}
+      />
 
       <p className="text-muted-foreground mt-2 text-center">
         Tu oferta será revisada por nuestro equipo antes de publicarse. Recibirás un email de confirmación.
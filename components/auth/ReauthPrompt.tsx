@@ -0,0 +1,66 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname } from "next/navigation";
+import { signOut, useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { loginUrl } from "@/lib/loginRedirect";
+
+export const REAUTH_PATH = "/reautenticar";
+export const REAUTH_MESSAGE = "madryn-empleos:reautenticado";
+
+/**
+ * Aviso que aparece cuando no se pudo renovar el token del backend. El nuevo inicio de
+ * sesión se hace en una ventana emergente para no perder lo que el usuario tenga en la página.
+ */
+export default function ReauthPrompt() {
+  const { data: session, update } = useSession();
+  const pathname = usePathname();
+  const [isWaiting, setIsWaiting] = useState(false);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== window.location.origin || event.data !== REAUTH_MESSAGE) return;
+      setIsWaiting(false);
+      update();
+    };
+    window.addEventListener("message", handleMessage);
+    return () => window.removeEventListener("message", handleMessage);
+  }, [update]);
+
+  if (session?.error !== "RefreshTokenError" || pathname === REAUTH_PATH) return null;
+
+  const handleReauth = () => {
+    const popup = window.open(REAUTH_PATH, "reautenticar", "width=500,height=650");
+    if (!popup) {
+      // Con las ventanas emergentes bloqueadas sólo queda volver a esta página después del login
+      window.location.assign(loginUrl(`${pathname}${window.location.search}`));
+      return;
+    }
+    setIsWaiting(true);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 px-4">
+      <Card className="w-full max-w-md p-6">
+        <CardHeader>
+          <CardTitle className="text-center pb-2">Tu sesión expiró</CardTitle>
+          <CardDescription className="text-center text-sm text-muted-foreground">
+            Vuelve a iniciar sesión para continuar. Lo que estabas haciendo en esta página no se pierde.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex justify-center gap-4">
+          <Button variant="outline" onClick={() => signOut({ callbackUrl: "/login" })} disabled={isWaiting}>
+            Cerrar sesión
+          </Button>
+          <Button className="bg-ocean-gradient text-white" onClick={handleReauth} disabled={isWaiting}>
+            {isWaiting ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            Iniciar sesión
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,8 +4,10 @@ import Link from "next/link";
 import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import { Ship, ChevronDown } from "lucide-react";
-import { useSession, signIn, signOut } from "next-auth/react";
-import { useRouter } from "next/navigation";
+import { useSession, signOut } from "next-auth/react";
+import { usePathname, useRouter } from "next/navigation";
+import { useRole } from "@/lib/hooks/useRole";
+import { loginUrl } from "@/lib/loginRedirect";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,14 +19,13 @@ import {
 export function DesktopHeader() {
   const { data: session, status } = useSession();
   const isAuthenticated = status === "authenticated";
+  const { isModerator, isAdmin } = useRole();
   const router = useRouter();
+  const pathname = usePathname();
 
+  // Sin sesión el middleware lleva al login y vuelve a /nuevo-aviso
   const handlePublicarEmpleo = () => {
-    if (!isAuthenticated) {
-      router.push("/login");
-    } else {
-      router.push("/nuevo-aviso");
-    }
+    router.push("/nuevo-aviso");
   };
 
   return (
@@ -52,7 +53,7 @@ export function DesktopHeader() {
       </div>
 
       <div className="flex items-center gap-4">
-        {isAuthenticated && process.env.NEXT_PUBLIC_ADMIN_EMAILS?.split(",").includes(session?.user.email as string) && (
+        {isModerator && (
           <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button
@@ -63,9 +64,11 @@ export function DesktopHeader() {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent className="w-56" align="end" forceMount>
-            <DropdownMenuItem asChild>
-              <Link href="/admin/imagenes">Gestionar Imágenes</Link>
-            </DropdownMenuItem>
+            {isAdmin && (
+              <DropdownMenuItem asChild>
+                <Link href="/admin/imagenes">Gestionar Imágenes</Link>
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem asChild>
               <Link href="/admin">Gestionar Ofertas</Link>
             </DropdownMenuItem>
@@ -118,7 +121,7 @@ export function DesktopHeader() {
           <Button
             variant="outline"
             className="border-primary text-primary hover:text-primary hover:bg-primary/10 border-2 border-primary/30 rounded-md transition-all duration-300 hover:shadow-lg hover:scale-105 transform text-base"
-            onClick={() => signIn("google")}
+            onClick={() => router.push(loginUrl(pathname))}
           >
             Iniciar sesión
           </Button>
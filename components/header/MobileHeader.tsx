@@ -3,23 +3,24 @@
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { Menu, Ship, ChevronDown } from "lucide-react";
-import { useSession, signIn, signOut } from "next-auth/react";
+import { useSession, signOut } from "next-auth/react";
 import Link from "next/link";
 import Image from "next/image";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
+import { useRole } from "@/lib/hooks/useRole";
+import { loginUrl } from "@/lib/loginRedirect";
 
 export function MobileHeader({ isMenuOpen, setIsMenuOpen }: { isMenuOpen: boolean; setIsMenuOpen: (open: boolean) => void }) {
   const { data: session, status } = useSession();
   const isAuthenticated = status === "authenticated";
+  const { isModerator } = useRole();
   const router = useRouter();
+  const pathname = usePathname();
 
+  // Sin sesión el middleware lleva al login y vuelve a /nuevo-aviso
   const handlePublicarEmpleo = () => {
     setIsMenuOpen(false);
-    if (!isAuthenticated) {
-      router.push("/login");
-    } else {
-      router.push("/nuevo-aviso");
-    }
+    router.push("/nuevo-aviso");
   };
 
   return (
@@ -114,7 +115,7 @@ export function MobileHeader({ isMenuOpen, setIsMenuOpen }: { isMenuOpen: boolea
               ))}
             </div>
 
-            {isAuthenticated && process.env.NEXT_PUBLIC_ADMIN_EMAILS?.split(",").includes(session?.user.email as string) && (
+            {isModerator && (
               <div className="border-t border-white/10 my-2 pt-2">
                 <p className="px-4 py-2 text-white/70 text-sm">Administrar</p>
                 <Link
@@ -162,7 +163,7 @@ export function MobileHeader({ isMenuOpen, setIsMenuOpen }: { isMenuOpen: boolea
                 className="w-full bg-transparent border border-white text-white hover:bg-white/10"
                 onClick={() => {
                   setIsMenuOpen(false);
-                  signIn("google", { callbackUrl: "/" });
+                  router.push(loginUrl(pathname));
                 }}
               >
                 Iniciar sesión
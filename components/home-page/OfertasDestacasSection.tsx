@@ -5,6 +5,7 @@ import { useOfertas } from "@/lib/hooks/useOfertas";
 import { Anchor, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
+import { ofertasParaPortada } from "@/lib/destacadas";
 
 export function OfertasDestacadasSection() {
   const { data: ofertas, isLoading, error } = useOfertas();
@@ -38,15 +39,15 @@ export function OfertasDestacadasSection() {
     );
   }
 
-  const ofertasDestacadas = ofertas
-    .filter(oferta => oferta.habilitado === true)
-    .sort((a, b) => new Date(b.fechaPublicacion).getTime() - new Date(a.fechaPublicacion).getTime())
-    .slice(0, 3);
+  // Sin avisos destacados vigentes la sección muestra los últimos publicados
+  const { ofertas: ofertasDestacadas, sonDestacadas } = ofertasParaPortada(ofertas);
 
   return (
     <section className="mx-auto py-12">
       <div className="text-center mb-10">
-        <h2 className="text-3xl font-bold text-primary mb-2 uppercase">Empleos Destacados</h2>
+        <h2 className="text-3xl font-bold text-primary mb-2 uppercase">
+          {sonDestacadas ? "Empleos Destacados" : "Últimos Empleos"}
+        </h2>
         <p className="text-muted-foreground">Explora las últimas ofertas laborales en Puerto Madryn, desde empleos en turismo y pesca hasta oportunidades industriales.</p>
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
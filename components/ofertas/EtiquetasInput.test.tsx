@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { EtiquetasInput } from "./EtiquetasInput";
+
+describe("EtiquetasInput", () => {
+  it("agrega la etiqueta normalizada al presionar Enter", async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<EtiquetasInput value={["inglés"]} onChange={onChange} />);
+
+    await user.type(screen.getByLabelText("Agregar etiqueta"), "  Carnet   de Conducir{Enter}");
+
+    expect(onChange).toHaveBeenCalledWith(["inglés", "carnet de conducir"]);
+  });
+
+  it("no repite etiquetas y permite quitarlas", async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<EtiquetasInput value={["inglés", "turno noche"]} onChange={onChange} />);
+
+    await user.type(screen.getByLabelText("Agregar etiqueta"), "Inglés{Enter}");
+    expect(onChange).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole("button", { name: "Quitar etiqueta inglés" }));
+    expect(onChange).toHaveBeenCalledWith(["turno noche"]);
+  });
+
+  it("agrega una sugerencia con un clic", async () => {
+    const onChange = vi.fn();
+    const user = userEvent.setup();
+    render(<EtiquetasInput value={[]} onChange={onChange} />);
+
+    await user.click(screen.getByRole("button", { name: "sin experiencia" }));
+
+    expect(onChange).toHaveBeenCalledWith(["sin experiencia"]);
+  });
+});
@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ETIQUETAS_SUGERIDAS, MAX_ETIQUETA_LENGTH, MAX_ETIQUETAS, normalizeEtiqueta } from "@/lib/etiquetas";
+
+interface EtiquetasInputProps {
+  value: string[];
+  onChange: (etiquetas: string[]) => void;
+}
+
+export function EtiquetasInput({ value, onChange }: EtiquetasInputProps) {
+  const [draft, setDraft] = useState("");
+  const isFull = value.length >= MAX_ETIQUETAS;
+
+  const addEtiqueta = (etiqueta: string) => {
+    const normalized = normalizeEtiqueta(etiqueta);
+    if (!normalized || isFull || value.includes(normalized)) return;
+    onChange([...value, normalized.slice(0, MAX_ETIQUETA_LENGTH)]);
+  };
+
+  const removeEtiqueta = (etiqueta: string) => {
+    onChange(value.filter((tag) => tag !== etiqueta));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addEtiqueta(draft);
+      setDraft("");
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      removeEtiqueta(value[value.length - 1]);
+    }
+  };
+
+  const sugerencias = ETIQUETAS_SUGERIDAS.filter((tag) => !value.includes(tag));
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map((etiqueta) => (
+            <Badge key={etiqueta} variant="secondary" className="gap-1 pr-1">
+              {etiqueta}
+              <button
+                type="button"
+                onClick={() => removeEtiqueta(etiqueta)}
+                className="rounded-full hover:bg-primary/20"
+                aria-label={`Quitar etiqueta ${etiqueta}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        placeholder={isFull ? `Máximo ${MAX_ETIQUETAS} etiquetas` : "Escribe una etiqueta y presiona Enter"}
+        value={draft}
+        maxLength={MAX_ETIQUETA_LENGTH}
+        disabled={isFull}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => {
+          addEtiqueta(draft);
+          setDraft("");
+        }}
+        className="border-primary/20 focus-visible:ring-primary"
+        aria-label="Agregar etiqueta"
+      />
+      {!isFull && sugerencias.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Sugerencias:</span>
+          {sugerencias.map((etiqueta) => (
+            <button
+              key={etiqueta}
+              type="button"
+              onClick={() => addEtiqueta(etiqueta)}
+              className="flex items-center gap-1 rounded-full border border-primary/30 px-2 py-0.5 text-primary hover:bg-primary/10"
+            >
+              <Plus className="h-3 w-3" />
+              {etiqueta}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
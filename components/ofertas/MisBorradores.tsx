@@ -0,0 +1,67 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { FileText, Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useBorradores, useEliminarBorrador } from "@/lib/hooks/useBorradores";
+import { tituloBorrador } from "@/lib/borradores";
+
+interface MisBorradoresProps {
+  usuarioId: string;
+  token: string;
+}
+
+export function MisBorradores({ usuarioId, token }: MisBorradoresProps) {
+  const router = useRouter();
+  const { data: borradores } = useBorradores(usuarioId, token);
+  const eliminarMutation = useEliminarBorrador();
+
+  if (!borradores?.length) return null;
+
+  return (
+    <section id="mis-borradores" className="mt-10">
+      <h2 className="text-xl font-bold text-primary mb-2 uppercase text-center">Mis borradores</h2>
+      <p className="text-muted-foreground text-center mb-6">
+        Avisos que empezaste a completar y todavía no publicaste.
+      </p>
+      <div className="space-y-3">
+        {borradores.map((borrador) => (
+          <div
+            key={borrador.id}
+            className="flex flex-col gap-3 rounded-lg border border-secondary/30 bg-white p-4 md:flex-row md:items-center md:justify-between"
+          >
+            <div className="flex items-center gap-3">
+              <FileText className="h-5 w-5 text-primary" />
+              <div>
+                <p className="font-semibold text-gray-800">{tituloBorrador(borrador)}</p>
+                <p className="text-sm text-muted-foreground">
+                  Última edición:{" "}
+                  {new Date(borrador.actualizado).toLocaleString("es-AR", { dateStyle: "short", timeStyle: "short" })}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                onClick={() => router.push(`/nuevo-aviso?borrador=${borrador.id}`)}
+                className="flex hover:bg-primary/90 hover:text-white items-center gap-2"
+              >
+                <Pencil className="h-4 w-4" />
+                Continuar
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => eliminarMutation.mutate({ usuarioId, id: borrador.id, token })}
+                disabled={eliminarMutation.isPending}
+                className="flex items-center gap-2 text-destructive border-destructive/30 hover:bg-destructive"
+              >
+                <Trash2 className="h-4 w-4" />
+                Eliminar
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -4,33 +4,45 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Oferta } from "@/lib/types/iOferta";
-import { MapPin, Edit, Trash2, ArrowRight, Building } from "lucide-react";
+import { MapPin, Edit, Trash2, ArrowRight, Building, Banknote, Star, Clock, RefreshCw, Copy, CalendarClock } from "lucide-react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
 import Image from "next/image";
 import { Separator } from "../ui/separator";
 import { useState } from "react";
+import { formatSalario } from "@/lib/salario";
+import { JORNADA_LABELS, MODALIDAD_LABELS } from "@/lib/condiciones";
+import { formatUbicacion } from "@/lib/localidades";
+import { avisosPorEtiquetaHref } from "@/lib/etiquetas";
+import { empresaHref, getLogoUrl } from "@/lib/empresas";
+import { isDestacada } from "@/lib/destacadas";
+import { cierreProximoLabel, isCerrada } from "@/lib/cierre";
+import { programadaLabel } from "@/lib/publicacion";
+
+// Más etiquetas no entran en la tarjeta sin romper el alto de la grilla
+const MAX_ETIQUETAS_VISIBLES = 3;
 
 interface OfertaCardProps {
   oferta: Oferta;
   showEditOptions?: boolean;
   onEdit?: (ofertaId: string) => void;
   onDelete?: (ofertaId: string) => void;
+  onRenovar?: (ofertaId: string) => void;
+  onDuplicar?: (ofertaId: string) => void;
 }
 
-const DEFAULT_LOGO_URL = "https://example.com/default-logo.png";
-
-const getLogoUrl = (logoUrl: string | null | undefined): string | null => {
-  if (!logoUrl || logoUrl === DEFAULT_LOGO_URL) {
-    return null;
-  }
-
-  const isExternalUrl = logoUrl.startsWith("http://") || logoUrl.startsWith("https://");
-  return isExternalUrl ? logoUrl : `${process.env.NEXT_PUBLIC_API_URL}${logoUrl}`;
-};
-
-export function OfertaCard({ oferta: oferta, showEditOptions = false, onEdit, onDelete }: OfertaCardProps) {
+export function OfertaCard({ oferta: oferta, showEditOptions = false, onEdit, onDelete, onRenovar, onDuplicar }: OfertaCardProps) {
   const [logoError, setLogoError] = useState(false); // Estado para manejar errores de carga del logo
+  const salario = formatSalario(oferta);
+  const router = useRouter();
+  const etiquetas = oferta.etiquetas ?? [];
+  const empresa = oferta.empresa;
+  const logoUrl = oferta.logoUrl ?? empresa?.logoUrl;
+  const destacada = isDestacada(oferta);
+  const cerrada = isCerrada(oferta);
+  const cierreProximo = cierreProximoLabel(oferta);
+  const programada = programadaLabel(oferta);
 
   // const calculateDaysAgo = (date: string) => {
     //const publicationDate = new Date(date);
@@ -53,24 +65,48 @@ export function OfertaCard({ oferta: oferta, showEditOptions = false, onEdit, on
     if (onDelete) onDelete(oferta.id);
   };
 
+  const handleRenovarClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (onRenovar) onRenovar(oferta.id);
+  };
+
+  const handleDuplicarClick = (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (onDuplicar) onDuplicar(oferta.id);
+  };
+
+  // La tarjeta entera es un link al detalle, así que etiquetas y empresa navegan por su cuenta
+  const handleInnerLink = (e: React.MouseEvent | React.KeyboardEvent, href: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    router.push(href);
+  };
+
   return (
     <Link href={`/detalles-empleo/${oferta.slug}`} passHref>
       <Card
         className={cn(
           "group relative flex flex-col overflow-hidden transition-all duration-300",
           "hover:shadow-xl hover:-translate-y-2 hover:bg-primary/5 border-secondary/30",
-          "bg-gradient-to-b from-white to-secondary/10 min-w-[280px]"
+          "bg-gradient-to-b from-white to-secondary/10 min-w-[280px]",
+          destacada && "border-2 border-amber-400 from-amber-50 shadow-md"
         )}
       >
+        {destacada && (
+          <div className="absolute top-0 left-1/2 -translate-x-1/2 flex items-center gap-1 rounded-b-md bg-amber-400 px-3 py-0.5 text-xs font-semibold text-amber-950">
+            <Star className="h-3 w-3 fill-current" />
+            Destacado
+          </div>
+        )}
         <CardHeader className="pb-2 pt-5">
           <div className="flex justify-between items-center gap-2 mb-1">
-            {logoError || !getLogoUrl(oferta.logoUrl) ? (
+            {logoError || !getLogoUrl(logoUrl) ? (
               <div className="rounded-full h-12 w-12 flex items-center justify-center bg-primary/10">
                 <Building className="h-6 w-6 text-primary" />
               </div>
             ) : (
               <Image
-                src={getLogoUrl(oferta.logoUrl) as string}
+                src={getLogoUrl(logoUrl) as string}
                 alt={oferta.empresaConsultora || "Logo de la empresa"}
                 width={60}
                 height={60}
@@ -87,17 +123,94 @@ export function OfertaCard({ oferta: oferta, showEditOptions = false, onEdit, on
           <CardTitle className="line-clamp-1 mt-3 uppercase font-bold group-hover:text-primary transition-colors">
             {oferta.titulo}
           </CardTitle>
-          <p className="text-muted-foreground font-medium uppercase text-sm">{oferta.empresaConsultora}</p>
+          {empresa ? (
+            <p
+              role="link"
+              tabIndex={0}
+              className="text-muted-foreground font-medium uppercase text-sm w-fit hover:text-primary hover:underline"
+              onClick={(e) => handleInnerLink(e, empresaHref(empresa.slug))}
+              onKeyDown={(e) => e.key === "Enter" && handleInnerLink(e, empresaHref(empresa.slug))}
+            >
+              {empresa.nombre}
+            </p>
+          ) : (
+            <p className="text-muted-foreground font-medium uppercase text-sm">{oferta.empresaConsultora}</p>
+          )}
           <Separator className="border border-accent" />
         </CardHeader>
 
         <CardContent className="space-y-4 flex-grow pb-6 mt-2">
-          <div className="flex justify-between gap-4 text-sm">
+          {showEditOptions && !oferta.habilitado && (
+            <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+              Pendiente de revisión
+            </Badge>
+          )}
+          {showEditOptions && programada && (
+            <Badge variant="outline" className="gap-1 border-sky-300 bg-sky-50 text-sky-800">
+              <CalendarClock className="h-3 w-3" />
+              {programada}
+            </Badge>
+          )}
+          {cerrada ? (
+            <Badge variant="outline" className="border-gray-400 text-gray-600">
+              Búsqueda finalizada
+            </Badge>
+          ) : (
+            cierreProximo && (
+              <Badge variant="outline" className="gap-1 border-red-300 bg-red-50 text-red-700">
+                <Clock className="h-3 w-3" />
+                {cierreProximo}
+              </Badge>
+            )
+          )}
+          <div className="flex flex-wrap justify-between gap-2 text-sm">
             <div className="flex items-center gap-1.5 bg-secondary/30 py-1 px-2 rounded-full">
               <MapPin className="h-3.5 w-3.5 text-primary" />
-              <span className="text-neutral-800 font-medium line-clamp-1">Puerto Madryn</span>
+              <span className="text-neutral-800 font-medium line-clamp-1">{formatUbicacion(oferta)}</span>
             </div>
+            {salario && (
+              <div className="flex items-center gap-1.5 bg-secondary/30 py-1 px-2 rounded-full">
+                <Banknote className="h-3.5 w-3.5 text-primary" />
+                <span className="text-neutral-800 font-medium line-clamp-1">{salario}</span>
+              </div>
+            )}
           </div>
+          {(oferta.modalidad || oferta.jornada) && (
+            <div className="flex flex-wrap gap-2">
+              {oferta.modalidad && (
+                <Badge variant="outline" className="border-primary/40 text-primary">
+                  {MODALIDAD_LABELS[oferta.modalidad]}
+                </Badge>
+              )}
+              {oferta.jornada && (
+                <Badge variant="outline" className="border-primary/40 text-primary">
+                  {JORNADA_LABELS[oferta.jornada]}
+                </Badge>
+              )}
+            </div>
+          )}
+          {etiquetas.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {etiquetas.slice(0, MAX_ETIQUETAS_VISIBLES).map((etiqueta) => (
+                <Badge
+                  key={etiqueta}
+                  variant="secondary"
+                  role="link"
+                  tabIndex={0}
+                  className="cursor-pointer font-normal hover:bg-primary hover:text-white"
+                  onClick={(e) => handleInnerLink(e, avisosPorEtiquetaHref(etiqueta))}
+                  onKeyDown={(e) => e.key === "Enter" && handleInnerLink(e, avisosPorEtiquetaHref(etiqueta))}
+                >
+                  #{etiqueta}
+                </Badge>
+              ))}
+              {etiquetas.length > MAX_ETIQUETAS_VISIBLES && (
+                <Badge variant="outline" className="font-normal">
+                  +{etiquetas.length - MAX_ETIQUETAS_VISIBLES}
+                </Badge>
+              )}
+            </div>
+          )}
         </CardContent>
 
         <CardFooter className="flex justify-center">
@@ -135,6 +248,32 @@ export function OfertaCard({ oferta: oferta, showEditOptions = false, onEdit, on
             </Button>
           </div>
         )}
+        {showEditOptions && ((cerrada && onRenovar) || onDuplicar) && (
+          <div className="flex justify-between items-center gap-2 px-4 pb-4">
+            {cerrada && onRenovar && (
+              <Button
+                variant="outline"
+                size="lg"
+                onClick={handleRenovarClick}
+                className="flex hover:bg-primary/90 hover:text-white items-center gap-2"
+              >
+                <RefreshCw className="h-4 w-4" />
+                Renovar
+              </Button>
+            )}
+            {onDuplicar && (
+              <Button
+                variant="outline"
+                size="lg"
+                onClick={handleDuplicarClick}
+                className="flex hover:bg-primary/90 hover:text-white items-center gap-2 ml-auto"
+              >
+                <Copy className="h-4 w-4" />
+                Duplicar
+              </Button>
+            )}
+          </div>
+        )}
       </Card>
     </Link>
   );
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useState } from "react";
+import { OfertaForm } from "./OfertaForm";
+import { ofertaFormSchema, OfertaFormValues, VALORES_INICIALES } from "@/lib/ofertaForm";
+import { mockCategorias } from "@/lib/mock/fixtures";
+import { mockFetch, renderWithQueryClient } from "@/test/utils";
+
+vi.mock("next-auth/react", () => ({
+  useSession: () => ({ data: { backendToken: "token-empleador" }, status: "authenticated" }),
+}));
+
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ push: vi.fn() }),
+}));
+
+const valores: OfertaFormValues = {
+  ...(VALORES_INICIALES as OfertaFormValues),
+  titulo: "Cocinero/a",
+  descripcion: "<p>Cantina del puerto</p>",
+  empresaConsultora: "Cantina del Puerto",
+  categoria: mockCategorias[0].id,
+  modalidad: "PRESENCIAL",
+  jornada: "FULL_TIME",
+  emailContacto: "rrhh@cantina.test",
+};
+
+// Igual que las páginas: el error del envío queda en el estado y se vuelve a lanzar
+function FormularioQueFalla() {
+  const form = useForm<OfertaFormValues>({ resolver: zodResolver(ofertaFormSchema), defaultValues: valores });
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const onSubmit = async () => {
+    setSubmitError("Error 500: No se pudo guardar");
+    throw new Error("No se pudo guardar");
+  };
+  return (
+    <OfertaForm
+      mode="create"
+      form={form}
+      categorias={mockCategorias}
+      onSubmit={onSubmit}
+      isSubmitting={false}
+      submitError={submitError}
+    />
+  );
+}
+
+describe("OfertaForm", () => {
+  beforeEach(() => {
+    mockFetch({ body: [] });
+    vi.stubGlobal("scrollTo", vi.fn());
+    // jsdom no trae ResizeObserver y los controles de Radix lo usan para medirse
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        observe() {}
+        unobserve() {}
+        disconnect() {}
+      }
+    );
+  });
+
+  it("vuelve al formulario y muestra el error si falla la publicación desde la vista previa", async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<FormularioQueFalla />);
+
+    await user.click(screen.getByRole("button", { name: "Vista previa" }));
+    await waitFor(() => expect(screen.getByRole("button", { name: "Volver a editar" })).toBeInTheDocument());
+    await user.click(screen.getByRole("button", { name: "Publicar empleo" }));
+
+    await waitFor(() => expect(screen.queryByRole("button", { name: "Volver a editar" })).not.toBeInTheDocument());
+    expect(screen.getByText("Error 500: No se pudo guardar")).toBeVisible();
+    expect(screen.getByRole("button", { name: "Publicar empleo" })).toBeInTheDocument();
+  });
+});
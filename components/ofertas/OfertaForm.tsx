@@ -0,0 +1,721 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { UseFormReturn } from "react-hook-form";
+import { useSession } from "next-auth/react";
+import { Anchor, Eye, Loader2, Ship, X } from "lucide-react";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import RteEditor from "@/components/ui/RteEditor";
+import { EtiquetasInput } from "@/components/ofertas/EtiquetasInput";
+import { VistaPreviaOferta } from "@/components/ofertas/VistaPreviaOferta";
+import { useMisEmpresas } from "@/lib/hooks/useEmpresas";
+import { OfertaFormValues } from "@/lib/ofertaForm";
+import { ofertaVistaPrevia } from "@/lib/vistaPrevia";
+import { fechaInputLocal } from "@/lib/cierre";
+import { PERIODOS_SALARIO } from "@/lib/salario";
+import { FORMA_POSTULACION_LABELS, JORNADA_LABELS, MODALIDAD_LABELS } from "@/lib/condiciones";
+import { LOCALIDADES } from "@/lib/localidades";
+import { Categoria } from "@/lib/types/iCategoria";
+import { Oferta } from "@/lib/types/iOferta";
+
+// El Select no admite valores vacíos, así que "Otra empresa" usa uno propio
+const NUEVA_EMPRESA = "nueva";
+
+const SUBMIT_LABELS = {
+  create: { enviar: "Publicar empleo", enviando: "Publicando...", Icono: Anchor },
+  edit: { enviar: "Guardar cambios", enviando: "Guardando...", Icono: Ship },
+};
+
+interface OfertaFormProps {
+  mode: "create" | "edit";
+  form: UseFormReturn<OfertaFormValues>;
+  categorias: Categoria[];
+  onSubmit: (values: OfertaFormValues) => Promise<void>;
+  isSubmitting: boolean;
+  submitError?: string | null;
+  // Al editar, el aviso guardado completa la vista previa con su slug y fecha de publicación
+  ofertaOriginal?: Oferta;
+}
+
+export function OfertaForm({ mode, form, categorias, onSubmit, isSubmitting, submitError, ofertaOriginal }: OfertaFormProps) {
+  const { data: session } = useSession();
+  const { data: misEmpresas } = useMisEmpresas(session?.backendToken ?? "");
+  const [vistaPrevia, setVistaPrevia] = useState<Oferta | null>(null);
+  const empresaSeleccionada = misEmpresas?.find((empresa) => empresa.id === form.watch("empresaId"));
+  const logoUrl = form.watch("logoUrl");
+  const { enviar, enviando, Icono } = SUBMIT_LABELS[mode];
+
+  // Quien ya publicó arranca con su empresa elegida en lugar de volver a escribirla
+  useEffect(() => {
+    if (mode === "create" && misEmpresas?.length && !form.getValues("empresaConsultora")) {
+      form.setValue("empresaId", misEmpresas[0].id);
+      form.setValue("empresaConsultora", misEmpresas[0].nombre);
+    }
+  }, [mode, misEmpresas, form]);
+
+  const handleEmpresaChange = (value: string) => {
+    const empresa = misEmpresas?.find((e) => e.id === value);
+    form.setValue("empresaId", empresa?.id ?? null);
+    form.setValue("empresaConsultora", empresa?.nombre ?? "");
+    if (empresa?.logoUrl && !form.getValues("logoUrl")) form.setValue("logo", undefined);
+  };
+
+  const handleVistaPrevia = form.handleSubmit((values) => {
+    setVistaPrevia(
+      ofertaVistaPrevia(values, {
+        categorias,
+        empresas: misEmpresas,
+        usuarioEmail: session?.user?.email ?? "",
+        logoUrl: values.logoUrl,
+        ofertaOriginal,
+      })
+    );
+    window.scrollTo({ top: 0 });
+  });
+
+  // Tanto si se guarda como si falla se vuelve al formulario, donde se ve `submitError`
+  const handleEnviar = form.handleSubmit(async (values) => {
+    try {
+      await onSubmit(values);
+    } catch {
+      // La página ya guardó el error para mostrarlo
+    } finally {
+      setVistaPrevia(null);
+    }
+  });
+
+  return (
+    <>
+      {vistaPrevia && (
+        <VistaPreviaOferta
+          oferta={vistaPrevia}
+          logo={form.getValues("logo")}
+          confirmarLabel={enviar}
+          isSubmitting={isSubmitting}
+          onVolver={() => setVistaPrevia(null)}
+          onConfirmar={handleEnviar}
+        />
+      )}
+      <Form {...form}>
+        <form
+          onSubmit={handleEnviar}
+          hidden={!!vistaPrevia}
+          className="max-w-2xl mx-auto space-y-6 bg-gradient-to-b from-white to-secondary/10 p-6 rounded-lg border border-secondary/30 shadow-sm"
+        >
+          <FormField
+            control={form.control}
+            name="titulo"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-primary font-medium">Título del empleo</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="ej: Cocinero/a"
+                    {...field}
+                    className="border-primary/20 focus-visible:ring-primary"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {(!empresaSeleccionada?.logoUrl || logoUrl) && (
+            <FormField
+              control={form.control}
+              name="logo"
+              render={({ field: { onChange, value, ...field } }) => (
+                <FormItem>
+                  <FormLabel className="text-primary font-medium">Logo de la empresa (opcional)</FormLabel>
+                  {logoUrl && !value && (
+                    <div className="mt-2 flex items-center space-x-2">
+                      <span className="text-sm text-muted-foreground">Logo actual: {logoUrl.split("_").pop()}</span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive border-destructive hover:bg-destructive/10"
+                        onClick={() => form.setValue("logoUrl", null)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                  <FormControl>
+                    <Input
+                      type="file"
+                      accept="image/png, image/jpeg, image/jpg"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        onChange(file);
+                      }}
+                      className="border-primary/20 cursor-pointer focus-visible:ring-primary"
+                      {...field}
+                    />
+                  </FormControl>
+                  {value && (
+                    <div className="mt-2 flex items-center space-x-2">
+                      <span className="text-sm text-muted-foreground">{value.name}</span>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive border-destructive hover:bg-destructive"
+                        onClick={() => {
+                          onChange(undefined);
+                          const input = document.querySelector('input[name="logo"]') as HTMLInputElement;
+                          if (input) input.value = "";
+                        }}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          <FormField
+            control={form.control}
+            name="descripcion"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-primary font-medium">Descripción</FormLabel>
+                <FormControl>
+                  <RteEditor content={field.value} onChange={(val) => field.onChange(val)} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {misEmpresas && misEmpresas.length > 0 && (
+            <FormField
+              control={form.control}
+              name="empresaId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-primary font-medium">Empresa</FormLabel>
+                  <Select onValueChange={handleEmpresaChange} value={field.value ?? NUEVA_EMPRESA}>
+                    <FormControl>
+                      <SelectTrigger className="border-primary/20 focus:ring-primary">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {misEmpresas.map((empresa) => (
+                        <SelectItem key={empresa.id} value={empresa.id}>
+                          {empresa.nombre}
+                        </SelectItem>
+                      ))}
+                      <SelectItem value={NUEVA_EMPRESA}>Otra empresa</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {field.value
+                      ? "Se usarán el nombre, el logo y el perfil que ya cargaste para esta empresa."
+                      : "Completa los datos para crear el perfil de la nueva empresa."}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          {!form.watch("empresaId") && (
+            <>
+              <FormField
+                control={form.control}
+                name="empresaConsultora"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-primary font-medium">
+                      {misEmpresas && misEmpresas.length > 0 ? "Nombre de la empresa" : "Empresa"}
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="ej: Restaurante Madryn"
+                        {...field}
+                        className="border-primary/20 focus-visible:ring-primary"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="empresaDescripcion"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-primary font-medium">Sobre la empresa (opcional)</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="ej: Restaurante familiar de pescados y mariscos en la costanera"
+                        {...field}
+                        value={field.value ?? ""}
+                        className="border-primary/20 focus-visible:ring-primary"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="empresaSitioWeb"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-primary font-medium">Sitio web de la empresa (opcional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="https://..."
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value || null)}
+                        className="border-primary/20 focus-visible:ring-primary"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
+          )}
+          <FormField
+            control={form.control}
+            name="categoria"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-primary font-medium">Categoría</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value} key={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="border-primary/20 focus:ring-primary">
+                      <SelectValue placeholder="Selecciona una categoría" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {categorias.map((cat) => (
+                      <SelectItem key={cat.id} value={cat.id}>
+                        {cat.nombre}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="etiquetas"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-primary font-medium">Etiquetas (opcional)</FormLabel>
+                <FormControl>
+                  <EtiquetasInput value={field.value} onChange={field.onChange} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="modalidad"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-primary font-medium">Modalidad</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                    <FormControl>
+                      <SelectTrigger className="border-primary/20 focus:ring-primary">
+                        <SelectValue placeholder="Selecciona una modalidad" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(MODALIDAD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="jornada"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-primary font-medium">Jornada</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                    <FormControl>
+                      <SelectTrigger className="border-primary/20 focus:ring-primary">
+                        <SelectValue placeholder="Selecciona una jornada" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(JORNADA_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="localidad"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-primary font-medium">Localidad</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger className="border-primary/20 focus:ring-primary">
+                      <SelectValue placeholder="Selecciona una localidad" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {LOCALIDADES.map((nombre) => (
+                      <SelectItem key={nombre} value={nombre}>
+                        {nombre}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="barrio"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-primary font-medium">Barrio (opcional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="ej: Centro"
+                      {...field}
+                      value={field.value ?? ""}
+                      className="border-primary/20 focus-visible:ring-primary"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="direccion"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-primary font-medium">Dirección (opcional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="ej: 25 de Mayo 150"
+                      {...field}
+                      value={field.value ?? ""}
+                      className="border-primary/20 focus-visible:ring-primary"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+          <FormField
+            control={form.control}
+            name="salarioAConvenir"
+            render={({ field }) => (
+              <FormItem className="space-y-3">
+                <FormLabel className="text-primary font-medium">Salario (opcional)</FormLabel>
+                <div className="flex items-center space-x-3">
+                  <FormControl>
+                    <input
+                      type="checkbox"
+                      checked={field.value}
+                      onChange={(e) => field.onChange(e.target.checked)}
+                      className="h-4 w-4 accent-primary"
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">A convenir</FormLabel>
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {!form.watch("salarioAConvenir") && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="salarioMin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-primary font-medium">Desde ($)</FormLabel>
+                    <FormControl>
+                      <Input
+                        inputMode="numeric"
+                        placeholder="ej: 800000"
+                        {...field}
+                        value={field.value ?? ""}
+                        className="border-primary/20 focus-visible:ring-primary"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="salarioMax"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-primary font-medium">Hasta ($)</FormLabel>
+                    <FormControl>
+                      <Input
+                        inputMode="numeric"
+                        placeholder="ej: 950000"
+                        {...field}
+                        value={field.value ?? ""}
+                        className="border-primary/20 focus-visible:ring-primary"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="periodoSalario"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-primary font-medium">Período</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                      <FormControl>
+                        <SelectTrigger className="border-primary/20 focus:ring-primary">
+                          <SelectValue placeholder="Selecciona" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(PERIODOS_SALARIO).map(([periodo, { label }]) => (
+                          <SelectItem key={periodo} value={periodo}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+          <FormField
+            control={form.control}
+            name="formaPostulacion"
+            render={({ field }) => (
+              <FormItem className="space-y-3">
+                <FormLabel className="text-primary font-medium">Forma de postulación</FormLabel>
+                <FormControl>
+                  <RadioGroup onValueChange={field.onChange} value={field.value} className="flex flex-col space-y-1">
+                    {Object.entries(FORMA_POSTULACION_LABELS).map(([value, label]) => (
+                      <FormItem key={value} className="flex items-center space-x-3 space-y-0">
+                        <FormControl>
+                          <RadioGroupItem value={value} />
+                        </FormControl>
+                        <FormLabel className="font-normal">{label}</FormLabel>
+                      </FormItem>
+                    ))}
+                  </RadioGroup>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {form.watch("formaPostulacion") === "MAIL" && (
+            <FormField
+              control={form.control}
+              name="emailContacto"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-primary font-medium">Email de contacto</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="contacto@empresa.com"
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                      className="border-primary/20 focus-visible:ring-primary"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          {form.watch("formaPostulacion") === "LINK" && (
+            <FormField
+              control={form.control}
+              name="linkPostulacion"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-primary font-medium">Link de postulación</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="https://..."
+                      {...field}
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                      className="border-primary/20 focus-visible:ring-primary"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          {(form.watch("formaPostulacion") === "WHATSAPP" || form.watch("formaPostulacion") === "TELEFONO") && (
+            <FormField
+              control={form.control}
+              name="telefonoPostulacion"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-primary font-medium">
+                    {form.watch("formaPostulacion") === "WHATSAPP" ? "Número de WhatsApp" : "Teléfono de contacto"}
+                  </FormLabel>
+                  <FormControl>
+                    <Input
+                      type="tel"
+                      placeholder="ej: 0280 15 456-7890"
+                      {...field}
+                      value={field.value ?? ""}
+                      className="border-primary/20 focus-visible:ring-primary"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          {form.watch("formaPostulacion") === "PRESENCIAL" && (
+            <>
+              <FormField
+                control={form.control}
+                name="direccionPostulacion"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-primary font-medium">Dirección para presentarse</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="ej: 25 de Mayo 150, Puerto Madryn"
+                        {...field}
+                        value={field.value ?? ""}
+                        className="border-primary/20 focus-visible:ring-primary"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="horarioPostulacion"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-primary font-medium">Días y horarios</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="ej: Lunes a viernes de 9 a 13"
+                        {...field}
+                        value={field.value ?? ""}
+                        className="border-primary/20 focus-visible:ring-primary"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </>
+          )}
+          <FormField
+            control={form.control}
+            name="fechaProgramada"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-primary font-medium">Fecha de publicación (opcional)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="date"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value || null)}
+                    min={fechaInputLocal()}
+                    className="border-primary/20 focus-visible:ring-primary"
+                  />
+                </FormControl>
+                <FormDescription>
+                  Déjala vacía para publicar el aviso apenas se apruebe, o elige un día para prepararlo con anticipación.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="fechaCierre"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-primary font-medium">Fecha de cierre (opcional)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="date"
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value || null)}
+                    min={fechaInputLocal()}
+                    className="border-primary/20 focus-visible:ring-primary"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {submitError && (
+            <Alert variant="destructive">
+              <AlertDescription>{submitError}</AlertDescription>
+            </Alert>
+          )}
+          <Button type="button" variant="outline" className="w-full" onClick={handleVistaPrevia} disabled={isSubmitting}>
+            <Eye className="mr-2 h-4 w-4" />
+            Vista previa
+          </Button>
+          <Button type="submit" className="w-full bg-primary text-white hover:bg-primary/90" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                {enviando}
+              </>
+            ) : (
+              <>
+                <Icono className="mr-2 h-4 w-4" />
+                {enviar}
+              </>
+            )}
+          </Button>
+        </form>
+      </Form>
+    </>
+  );
+}
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { OfertaList } from "./OfertaList";
+import { mockOfertas } from "@/lib/mock/fixtures";
+import { mockFetch, renderWithQueryClient } from "@/test/utils";
+
+vi.mock("next-auth/react", () => ({
+  useSession: () => ({ data: { backendToken: "token-empleador" }, status: "authenticated" }),
+}));
+
+const push = vi.fn();
+vi.mock("next/navigation", () => ({
+  useRouter: () => ({ push }),
+}));
+
+const titulos = () => screen.queryAllByRole("heading").map((heading) => heading.textContent);
+
+describe("OfertaList", () => {
+  beforeEach(() => {
+    mockFetch();
+  });
+
+  it("muestra sólo las ofertas habilitadas y ya publicadas", () => {
+    renderWithQueryClient(<OfertaList searchTerm="" selectedCategoria="all" ofertas={mockOfertas} />);
+
+    expect(screen.getByText("Recepcionista bilingüe")).toBeInTheDocument();
+    expect(screen.queryByText("Vendedor/a de mostrador")).not.toBeInTheDocument();
+    expect(screen.queryByText("Guía de avistaje de ballenas")).not.toBeInTheDocument();
+  });
+
+  it("muestra a quien publica sus avisos pendientes de revisión", () => {
+    renderWithQueryClient(<OfertaList searchTerm="" selectedCategoria="all" ofertas={mockOfertas} showEditOptions />);
+
+    const card = screen.getByText("Vendedor/a de mostrador").closest("a")!;
+    expect(within(card).getByText("Pendiente de revisión")).toBeInTheDocument();
+  });
+
+  it("muestra a quien publica la fecha de sus avisos programados", () => {
+    renderWithQueryClient(<OfertaList searchTerm="" selectedCategoria="all" ofertas={mockOfertas} showEditOptions />);
+
+    const card = screen.getByText("Guía de avistaje de ballenas").closest("a")!;
+    expect(within(card).getByText("Programado para el 12/06")).toBeInTheDocument();
+  });
+
+  it("filtra por texto y por categoría", () => {
+    const { rerender } = renderWithQueryClient(
+      <OfertaList searchTerm="pesquera" selectedCategoria="all" ofertas={mockOfertas} />
+    );
+
+    expect(screen.getByText("Operario de planta pesquera")).toBeInTheDocument();
+    expect(screen.queryByText("Recepcionista bilingüe")).not.toBeInTheDocument();
+
+    rerender(<OfertaList searchTerm="" selectedCategoria="cat-gastronomia" ofertas={mockOfertas} />);
+
+    expect(screen.getByText("Cocinero/a de línea")).toBeInTheDocument();
+    expect(screen.queryByText("Operario de planta pesquera")).not.toBeInTheDocument();
+  });
+
+  it("avisa cuando ningún aviso coincide con los filtros", () => {
+    renderWithQueryClient(<OfertaList searchTerm="astronauta" selectedCategoria="all" ofertas={mockOfertas} />);
+
+    expect(screen.getByText("No hay ofertas disponibles con los filtros seleccionados.")).toBeInTheDocument();
+  });
+
+  it("avisa cuando no hay ofertas publicadas", () => {
+    renderWithQueryClient(<OfertaList searchTerm="" selectedCategoria="all" ofertas={[mockOfertas[3]]} />);
+
+    expect(screen.getByText("Aún no hay ofertas publicadas.")).toBeInTheDocument();
+  });
+
+  it("elimina la oferta después de confirmar", async () => {
+    const fetchMock = mockFetch({ status: 204 });
+    const onDelete = vi.fn();
+    const user = userEvent.setup();
+    renderWithQueryClient(
+      <OfertaList searchTerm="" selectedCategoria="all" ofertas={mockOfertas} showEditOptions onDelete={onDelete} />
+    );
+
+    const card = screen.getByText("Recepcionista bilingüe").closest("a")!;
+    await user.click(within(card).getByRole("button", { name: /eliminar/i }));
+    expect(screen.getByText("Confirmar eliminación")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Confirmar" }));
+
+    await waitFor(() => expect(screen.getByText("¡Oferta eliminada con éxito!")).toBeInTheDocument());
+    expect(fetchMock.mock.calls[0][0]).toBe("http://api.test/api/ofertas/oferta-1");
+    expect(onDelete).toHaveBeenCalledWith("oferta-1");
+    expect(titulos()).not.toContain("Recepcionista bilingüe");
+  });
+
+  it("no elimina nada si se cancela", async () => {
+    const fetchMock = mockFetch();
+    const user = userEvent.setup();
+    renderWithQueryClient(<OfertaList searchTerm="" selectedCategoria="all" ofertas={mockOfertas} showEditOptions />);
+
+    const card = screen.getByText("Recepcionista bilingüe").closest("a")!;
+    await user.click(within(card).getByRole("button", { name: /eliminar/i }));
+    await user.click(screen.getByRole("button", { name: "Cancelar" }));
+
+    expect(screen.queryByText("Confirmar eliminación")).not.toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("muestra el error del backend al fallar la eliminación", async () => {
+    mockFetch({ status: 500, body: "Error interno" });
+    const user = userEvent.setup();
+    renderWithQueryClient(<OfertaList searchTerm="" selectedCategoria="all" ofertas={mockOfertas} showEditOptions />);
+
+    const card = screen.getByText("Recepcionista bilingüe").closest("a")!;
+    await user.click(within(card).getByRole("button", { name: /eliminar/i }));
+    await user.click(screen.getByRole("button", { name: "Confirmar" }));
+
+    await waitFor(() =>
+      expect(screen.getByText("Error al eliminar la oferta: Error 500: Error interno")).toBeInTheDocument()
+    );
+  });
+
+  it("las etiquetas de la tarjeta filtran el listado de avisos", async () => {
+    const user = userEvent.setup();
+    renderWithQueryClient(<OfertaList searchTerm="" selectedCategoria="all" ofertas={mockOfertas} />);
+
+    await user.click(screen.getByRole("link", { name: "#inglés" }));
+
+    expect(push).toHaveBeenCalledWith("/avisos?etiqueta=ingl%C3%A9s");
+  });
+
+  it("distingue la falta de resultados cuando la página filtró por su cuenta", () => {
+    renderWithQueryClient(<OfertaList searchTerm="" selectedCategoria="all" ofertas={[]} hasActiveFilters />);
+
+    expect(screen.getByText("No hay ofertas disponibles con los filtros seleccionados.")).toBeInTheDocument();
+  });
+});
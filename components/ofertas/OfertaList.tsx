@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState, useMemo } from "react";
+import { useEffect, useState, useMemo, useRef } from "react";
 import { OfertaCard } from "@/components/ofertas/OfertaCard";
 import { Oferta } from "@/lib/types/iOferta";
 import { Loader2, Anchor, CheckCircle2 } from "lucide-react";
@@ -9,6 +9,8 @@ import { useOfertas } from "@/lib/hooks/useOfertas";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useDeleteOferta } from "@/lib/hooks/useOfertas";
 import { useSession } from "next-auth/react";
+import { isApiError } from "@/lib/api/client";
+import { filterOfertas } from "@/lib/api/ofertas";
 
 interface OfertaListProps {
   searchTerm: string;
@@ -17,6 +19,13 @@ interface OfertaListProps {
   showEditOptions?: boolean;
   onEdit?: (ofertaId: string) => void;
   onDelete?: (ofertaId: string) => void;
+  onRenovar?: (ofertaId: string) => void;
+  onDuplicar?: (ofertaId: string) => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Filtros que la página ya aplicó al pedir las ofertas y que la lista no conoce
+  hasActiveFilters?: boolean;
 }
 
 export function OfertaList({
@@ -26,9 +35,15 @@ export function OfertaList({
   showEditOptions = false,
   onEdit,
   onDelete,
+  onRenovar,
+  onDuplicar,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  hasActiveFilters: hasExternalFilters = false,
 }: OfertaListProps) {
   const { data: session } = useSession();
-  const { data: fetchedOfertas, isLoading, error, refetch } = useOfertas();
+  const { data: fetchedOfertas, isLoading, error, refetch } = useOfertas({ enabled: !externalOfertas });
   const [filteredOfertas, setFilteredOfertas] = useState<Oferta[]>([]);
   const [showConfirmDelete, setShowConfirmDelete] = useState<string | null>(null);
   const [deleteSuccess, setDeleteSuccess] = useState<string | null>(null);
@@ -39,30 +54,16 @@ export function OfertaList({
   const allOfertas = useMemo(() => externalOfertas || fetchedOfertas || [], [externalOfertas, fetchedOfertas]);
 
   useEffect(() => {
-    const applyFilters = () => {
-      let result = [...allOfertas];
-
-      result = result.filter((oferta) => oferta.habilitado === true);
-
-      if (searchTerm.trim()) {
-        const term = searchTerm.toLowerCase().trim();
-        result = result.filter(
-          (oferta) =>
-            oferta.titulo.toLowerCase().includes(term) ||
-            oferta.descripcion.toLowerCase().includes(term) ||
-            oferta.empresaConsultora.toLowerCase().includes(term)
-        );
-      }
-
-      if (selectedCategoria !== "all") {
-        result = result.filter((job) => job.categoria.id === selectedCategoria);
-      }
-
-      setFilteredOfertas(result);
-    };
-
-    applyFilters();
-  }, [searchTerm, selectedCategoria, allOfertas]);
+    setFilteredOfertas(
+      filterOfertas(allOfertas, {
+        // Quien publica también ve sus avisos pendientes de revisión y los programados
+        habilitado: showEditOptions ? undefined : true,
+        soloPublicadas: !showEditOptions,
+        q: searchTerm,
+        categoriaId: selectedCategoria !== "all" ? selectedCategoria : undefined,
+      })
+    );
+  }, [searchTerm, selectedCategoria, allOfertas, showEditOptions]);
 
   const handleDelete = (ofertaId: string) => {
     setShowConfirmDelete(ofertaId);
@@ -81,7 +82,7 @@ export function OfertaList({
             setDeleteError(null);
           },
           onError: (err) => {
-            if (err.message.includes("404")) {
+            if (isApiError(err) && err.isNotFound) {
               setFilteredOfertas((prev) => prev.filter((oferta) => oferta.id !== showConfirmDelete));
               setDeleteSuccess("¡Oferta eliminada con éxito!");
               if (onDelete) onDelete(showConfirmDelete);
@@ -133,12 +134,15 @@ export function OfertaList({
     );
   }
 
-  if (allOfertas.length === 0 || !allOfertas.some(job => job.habilitado === true)) {
+  const hasActiveFilters = hasExternalFilters || searchTerm.trim() !== "" || selectedCategoria !== "all";
+
+  if (!hasActiveFilters && (allOfertas.length === 0 || (!showEditOptions && !allOfertas.some(job => job.habilitado === true)))) {
     console.log("Showing no enabled jobs message");
     return (
       <div className="text-center py-8 px-4 bg-secondary/20 rounded-lg border border-secondary">
         <Anchor className="h-8 w-8 mx-auto text-primary mb-2" />
         <p className="text-foreground">Aún no hay ofertas publicadas.</p>
+        {hasMore && <LoadMore isLoadingMore={isLoadingMore} onLoadMore={onLoadMore} />}
       </div>
     );
   }
@@ -149,6 +153,7 @@ export function OfertaList({
       <div className="text-center py-8 px-4 bg-secondary/20 rounded-lg border border-secondary">
         <Anchor className="h-8 w-8 mx-auto text-primary mb-2" />
         <p className="text-foreground">No hay ofertas disponibles con los filtros seleccionados.</p>
+        {hasMore && <LoadMore isLoadingMore={isLoadingMore} onLoadMore={onLoadMore} />}
       </div>
     );
   }
@@ -163,10 +168,14 @@ export function OfertaList({
             showEditOptions={showEditOptions}
             onEdit={() => onEdit?.(oferta.id)}
             onDelete={handleDelete}
+            onRenovar={onRenovar}
+            onDuplicar={onDuplicar}
           />
         ))}
       </div>
 
+      {hasMore && <LoadMore isLoadingMore={isLoadingMore} onLoadMore={onLoadMore} />}
+
       {showConfirmDelete && (
         <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/50">
           <Alert 
@@ -248,4 +257,37 @@ export function OfertaList({
       )}
     </>
   );
-}
\ No newline at end of file
+}
+
+function LoadMore({ isLoadingMore, onLoadMore }: { isLoadingMore: boolean; onLoadMore?: () => void }) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !onLoadMore || isLoadingMore || typeof IntersectionObserver === "undefined") return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) onLoadMore();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [onLoadMore, isLoadingMore]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center mt-6">
+      <Button
+        variant="outline"
+        className="border-primary text-primary hover:bg-primary/10"
+        onClick={onLoadMore}
+        disabled={isLoadingMore}
+      >
+        {isLoadingMore ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+        {isLoadingMore ? "Cargando..." : "Cargar más ofertas"}
+      </Button>
+    </div>
+  );
+}
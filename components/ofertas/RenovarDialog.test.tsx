@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+import { fireEvent, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { RenovarDialog } from "./RenovarDialog";
+import { mockOfertas } from "@/lib/mock/fixtures";
+import { mockFetch, renderWithQueryClient } from "@/test/utils";
+
+const cerrada = mockOfertas[4];
+
+describe("RenovarDialog", () => {
+  it("envía la nueva fecha de cierre y avisa que el aviso vuelve a revisión", async () => {
+    const fetchMock = mockFetch({ body: { ...cerrada, fechaCierre: "2030-01-31T00:00:00.000Z", habilitado: false } });
+    const user = userEvent.setup();
+    renderWithQueryClient(<RenovarDialog oferta={cerrada} token="token-empleador" onClose={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText("Nueva fecha de cierre"), { target: { value: "2030-01-31" } });
+    await user.click(screen.getByRole("button", { name: "Renovar" }));
+
+    await waitFor(() => expect(screen.getByText("¡Aviso renovado!")).toBeInTheDocument());
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://api.test/api/ofertas/oferta-5/renovar");
+    expect(JSON.parse(init.body as string)).toEqual({ fechaCierre: "2030-01-31T00:00:00.000Z" });
+    expect(screen.getByText(/volverá a publicarse cuando nuestro equipo lo revise/)).toBeInTheDocument();
+  });
+
+  it("muestra el error del backend sin cerrar el diálogo", async () => {
+    mockFetch({ status: 403, body: "No autorizado" });
+    const onClose = vi.fn();
+    const user = userEvent.setup();
+    renderWithQueryClient(<RenovarDialog oferta={cerrada} token="token-empleador" onClose={onClose} />);
+
+    await user.click(screen.getByRole("button", { name: "Renovar" }));
+
+    await waitFor(() => expect(screen.getByText(/No se pudo renovar el aviso: No autorizado/)).toBeInTheDocument());
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
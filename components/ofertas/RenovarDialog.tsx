@@ -0,0 +1,89 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, CheckCircle2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Oferta } from "@/lib/types/iOferta";
+import { useRenovarOferta } from "@/lib/hooks/useOfertas";
+import { isApiError } from "@/lib/api/client";
+import { fechaInputLocal } from "@/lib/cierre";
+
+// Plazo que se sugiere al renovar, el usuario puede elegir otra fecha
+const DIAS_RENOVACION_POR_DEFECTO = 30;
+
+interface RenovarDialogProps {
+  oferta: Oferta;
+  token: string;
+  onClose: () => void;
+}
+
+export function RenovarDialog({ oferta, token, onClose }: RenovarDialogProps) {
+  const [fecha, setFecha] = useState(() => {
+    const hoy = new Date();
+    return fechaInputLocal(new Date(hoy.getFullYear(), hoy.getMonth(), hoy.getDate() + DIAS_RENOVACION_POR_DEFECTO));
+  });
+  const renovarMutation = useRenovarOferta();
+  const renovada = renovarMutation.data;
+
+  const handleRenovar = () => {
+    if (!fecha) return;
+    renovarMutation.mutate({ id: oferta.id, fechaCierre: new Date(fecha).toISOString(), token });
+  };
+
+  if (renovada) {
+    return (
+      <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/50">
+        <Alert className="bg-green-50 border-green-400 text-green-800 shadow-lg max-w-md w-full p-6">
+          <CheckCircle2 className="h-5 w-5" />
+          <AlertTitle className="text-lg font-semibold">¡Aviso renovado!</AlertTitle>
+          <AlertDescription className="mt-1">
+            {renovada.habilitado
+              ? `"${renovada.titulo}" vuelve a recibir postulaciones hasta el ${new Date(fecha).toLocaleDateString("es-AR", { timeZone: "UTC" })}.`
+              : `"${renovada.titulo}" volverá a publicarse cuando nuestro equipo lo revise.`}
+          </AlertDescription>
+          <Button variant="outline" size="sm" className="mt-4 w-full" onClick={onClose}>
+            Cerrar
+          </Button>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center z-50 bg-black/50">
+      <Alert className="bg-white border border-gray-300 text-gray-800 shadow-lg max-w-md w-full p-6">
+        <AlertTitle className="text-lg font-semibold">Renovar aviso</AlertTitle>
+        <AlertDescription className="mt-1 space-y-3">
+          <p>
+            Elige hasta cuándo quieres recibir postulaciones para &quot;{oferta.titulo}&quot;. El aviso conserva su
+            dirección y sus postulaciones anteriores.
+          </p>
+          <Input
+            type="date"
+            value={fecha}
+            min={fechaInputLocal()}
+            onChange={(e) => setFecha(e.target.value)}
+            aria-label="Nueva fecha de cierre"
+          />
+          {renovarMutation.error && (
+            <p className="text-sm text-destructive">
+              No se pudo renovar el aviso:{" "}
+              {isApiError(renovarMutation.error) ? renovarMutation.error.backendMessage : renovarMutation.error.message}
+            </p>
+          )}
+        </AlertDescription>
+        <div className="mt-4 flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={onClose} disabled={renovarMutation.isPending}>
+            Cancelar
+          </Button>
+          <Button size="sm" onClick={handleRenovar} disabled={!fecha || renovarMutation.isPending}>
+            {renovarMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+            Renovar
+          </Button>
+        </div>
+      </Alert>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import { screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { SearchFilters } from "./SearchFilters";
+import { mockCategorias } from "@/lib/mock/fixtures";
+import { mockFetch, renderWithQueryClient } from "@/test/utils";
+
+describe("SearchFilters", () => {
+  it("informa el texto de búsqueda a medida que se escribe", async () => {
+    mockFetch({ body: mockCategorias });
+    const onFilterChange = vi.fn();
+    const user = userEvent.setup();
+    renderWithQueryClient(<SearchFilters onFilterChange={onFilterChange} />);
+
+    await user.type(await screen.findByPlaceholderText("Buscar empleos..."), "mozo");
+
+    expect(onFilterChange).toHaveBeenLastCalledWith({
+      searchTerm: "mozo",
+      selectedCategory: "all",
+      salarioDesde: "",
+      periodoSalario: "all",
+      modalidad: "all",
+      jornada: "all",
+      localidad: "all",
+    });
+  });
+
+  it("limpia los filtros activos", async () => {
+    mockFetch({ body: mockCategorias });
+    const onFilterChange = vi.fn();
+    const user = userEvent.setup();
+    renderWithQueryClient(<SearchFilters onFilterChange={onFilterChange} />);
+
+    const input = await screen.findByPlaceholderText("Buscar empleos...");
+    expect(screen.queryByRole("button", { name: /limpiar filtros/i })).not.toBeInTheDocument();
+
+    await user.type(input, "guía");
+    await user.click(screen.getByRole("button", { name: /limpiar filtros/i }));
+
+    expect(input).toHaveValue("");
+    expect(onFilterChange).toHaveBeenLastCalledWith({
+      searchTerm: "",
+      selectedCategory: "all",
+      salarioDesde: "",
+      periodoSalario: "all",
+      modalidad: "all",
+      jornada: "all",
+      localidad: "all",
+    });
+    expect(screen.queryByRole("button", { name: /limpiar filtros/i })).not.toBeInTheDocument();
+  });
+
+  it("informa el salario mínimo sólo con dígitos", async () => {
+    mockFetch({ body: mockCategorias });
+    const onFilterChange = vi.fn();
+    const user = userEvent.setup();
+    renderWithQueryClient(<SearchFilters onFilterChange={onFilterChange} />);
+
+    await user.type(await screen.findByLabelText("Filtrar por salario mínimo"), "800000");
+
+    expect(onFilterChange).toHaveBeenLastCalledWith(expect.objectContaining({ salarioDesde: "800000" }));
+    expect(screen.getByRole("button", { name: /limpiar filtros/i })).toBeInTheDocument();
+  });
+});
@@ -6,25 +6,55 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Button } from "@/components/ui/button";
 import { Search, X } from "lucide-react";
 import { useCategorias } from "@/lib/hooks/useCategorias";
+import { PERIODOS_SALARIO } from "@/lib/salario";
+import { JORNADA_LABELS, MODALIDAD_LABELS } from "@/lib/condiciones";
+import { LOCALIDADES } from "@/lib/localidades";
+
+export interface SearchFiltersValue {
+  searchTerm?: string;
+  selectedCategory?: string;
+  salarioDesde?: string;
+  periodoSalario?: string;
+  modalidad?: string;
+  jornada?: string;
+  localidad?: string;
+}
 
 interface SearchFiltersProps {
-  onFilterChange: (filters: { searchTerm?: string; selectedCategory?: string }) => void;
+  onFilterChange: (filters: SearchFiltersValue) => void;
 }
 
 export function SearchFilters({ onFilterChange }: SearchFiltersProps) {
   const { data: categorias, error } = useCategorias();
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedCategory, setSelectedCategory] = useState("all");
+  const [salarioDesde, setSalarioDesde] = useState("");
+  const [periodoSalario, setPeriodoSalario] = useState("all");
+  const [modalidad, setModalidad] = useState("all");
+  const [jornada, setJornada] = useState("all");
+  const [localidad, setLocalidad] = useState("all");
 
   useEffect(() => {
-    onFilterChange({ searchTerm, selectedCategory });
-  }, [searchTerm, selectedCategory, onFilterChange]);
+    onFilterChange({ searchTerm, selectedCategory, salarioDesde, periodoSalario, modalidad, jornada, localidad });
+  }, [searchTerm, selectedCategory, salarioDesde, periodoSalario, modalidad, jornada, localidad, onFilterChange]);
 
-  const activeFiltersCount = (searchTerm.trim() ? 1 : 0) + (selectedCategory !== "all" ? 1 : 0);
+  const activeFiltersCount =
+    (searchTerm.trim() ? 1 : 0) +
+    (selectedCategory !== "all" ? 1 : 0) +
+    (salarioDesde ? 1 : 0) +
+    (periodoSalario !== "all" ? 1 : 0) +
+    (modalidad !== "all" ? 1 : 0) +
+    (jornada !== "all" ? 1 : 0) +
+    (localidad !== "all" ? 1 : 0);
 
   const clearFilters = () => {
     setSearchTerm("");
     setSelectedCategory("all");
+    setSalarioDesde("");
+    setPeriodoSalario("all");
+    setModalidad("all");
+    setJornada("all");
+    setLocalidad("all");
   };
 
 
@@ -43,8 +73,8 @@ export function SearchFilters({ onFilterChange }: SearchFiltersProps) {
   return (
     <div className="space-y-6 mb-4">
       <div className="bg-white p-4 sm:p-6 rounded-lg border shadow-sm">
-        <div className="flex flex-col sm:flex-row gap-4">
-          <div className="relative flex-1">
+        <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4">
+          <div className="relative flex-1 sm:min-w-[240px]">
             <Search className="absolute left-3 top-2.5 h-5 w-5 text-muted-foreground" />
             <Input
               placeholder="Buscar empleos..."
@@ -69,6 +99,73 @@ export function SearchFilters({ onFilterChange }: SearchFiltersProps) {
             </SelectContent>
           </Select>
 
+          <Select value={localidad} onValueChange={setLocalidad} aria-label="Filtrar por localidad">
+            <SelectTrigger className="w-full sm:w-[200px]">
+              <SelectValue placeholder="Localidad" />
+            </SelectTrigger>
+            <SelectContent position="popper" align="end">
+              <SelectItem value="all" className="bg-primary text-white">Todas las localidades</SelectItem>
+              {LOCALIDADES.map((nombre) => (
+                <SelectItem key={nombre} value={nombre} className="hover:bg-primary hover:text-white !important">
+                  {nombre}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            type="number"
+            inputMode="numeric"
+            min={0}
+            placeholder="Salario desde ($)"
+            value={salarioDesde}
+            onChange={(e) => setSalarioDesde(e.target.value.replace(/\D/g, ""))}
+            className="w-full sm:w-[180px]"
+            aria-label="Filtrar por salario mínimo"
+          />
+
+          <Select value={periodoSalario} onValueChange={setPeriodoSalario} aria-label="Filtrar por período de pago">
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue placeholder="Período de pago" />
+            </SelectTrigger>
+            <SelectContent position="popper" align="end">
+              <SelectItem value="all" className="bg-primary text-white">Cualquier período</SelectItem>
+              {Object.entries(PERIODOS_SALARIO).map(([periodo, { label }]) => (
+                <SelectItem key={periodo} value={periodo} className="hover:bg-primary hover:text-white !important">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={modalidad} onValueChange={setModalidad} aria-label="Filtrar por modalidad">
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue placeholder="Modalidad" />
+            </SelectTrigger>
+            <SelectContent position="popper" align="end">
+              <SelectItem value="all" className="bg-primary text-white">Todas las modalidades</SelectItem>
+              {Object.entries(MODALIDAD_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value} className="hover:bg-primary hover:text-white !important">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={jornada} onValueChange={setJornada} aria-label="Filtrar por jornada">
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue placeholder="Jornada" />
+            </SelectTrigger>
+            <SelectContent position="popper" align="end">
+              <SelectItem value="all" className="bg-primary text-white">Todas las jornadas</SelectItem>
+              {Object.entries(JORNADA_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value} className="hover:bg-primary hover:text-white !important">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           {activeFiltersCount > 0 && (
             <Button onClick={clearFilters} className="w-full sm:w-auto hover:bg-primary hover:text-white">
               <X className="mr-2 h-4 w-4" />
@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { ArrowLeft, Loader2, Monitor, Smartphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Oferta } from "@/lib/types/iOferta";
+import { OfertaCard } from "@/components/ofertas/OfertaCard";
+import OfertaHeader from "@/components/ofertas/detalles/OfertaHeader";
+import OfertaDescription from "@/components/ofertas/detalles/OfertaDescription";
+import OfertaDetails from "@/components/ofertas/detalles/OfertaDetails";
+
+type Dispositivo = "celular" | "computadora";
+
+// Ancho de un celular común, para que se apliquen los estilos sin los breakpoints md y lg
+const ANCHO_CELULAR_PX = 390;
+
+interface VistaPreviaOfertaProps {
+  oferta: Oferta;
+  // El logo elegido en el formulario, que todavía no tiene URL en el backend
+  logo?: File | null;
+  confirmarLabel: string;
+  isSubmitting: boolean;
+  onVolver: () => void;
+  onConfirmar: () => void;
+}
+
+export function VistaPreviaOferta({ oferta, logo, confirmarLabel, isSubmitting, onVolver, onConfirmar }: VistaPreviaOfertaProps) {
+  const [dispositivo, setDispositivo] = useState<Dispositivo>("computadora");
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!logo) return;
+    const url = URL.createObjectURL(logo);
+    setLogoUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [logo]);
+
+  const ofertaPrevia = logo && logoUrl ? { ...oferta, logoUrl } : oferta;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h2 className="text-xl font-bold text-primary uppercase">Vista previa</h2>
+          <p className="text-sm text-muted-foreground">Así verán tu aviso los postulantes una vez publicado.</p>
+        </div>
+        <div className="flex gap-2" role="group" aria-label="Tamaño de pantalla">
+          <Button
+            type="button"
+            variant={dispositivo === "celular" ? "default" : "outline"}
+            aria-pressed={dispositivo === "celular"}
+            onClick={() => setDispositivo("celular")}
+          >
+            <Smartphone className="h-4 w-4" />
+            Celular
+          </Button>
+          <Button
+            type="button"
+            variant={dispositivo === "computadora" ? "default" : "outline"}
+            aria-pressed={dispositivo === "computadora"}
+            onClick={() => setDispositivo("computadora")}
+          >
+            <Monitor className="h-4 w-4" />
+            Computadora
+          </Button>
+        </div>
+      </div>
+
+      <MarcoVistaPrevia ancho={dispositivo === "celular" ? `${ANCHO_CELULAR_PX}px` : "100%"}>
+        {/* Los links apuntan a un aviso que todavía no existe, así que no se navega desde acá */}
+        <div
+          className="py-6 px-4"
+          onClickCapture={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+          }}
+        >
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className="lg:col-span-2">
+              <OfertaHeader oferta={ofertaPrevia} />
+              <OfertaDescription oferta={ofertaPrevia} />
+              <OfertaDetails oferta={ofertaPrevia} />
+            </div>
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">Así se verá en el listado de avisos</p>
+              <OfertaCard oferta={ofertaPrevia} />
+            </div>
+          </div>
+        </div>
+      </MarcoVistaPrevia>
+
+      <div className="flex flex-col-reverse gap-2 md:flex-row md:justify-end">
+        <Button type="button" variant="outline" onClick={onVolver} disabled={isSubmitting}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Volver a editar
+        </Button>
+        <Button type="button" className="bg-primary text-white hover:bg-primary/90" onClick={onConfirmar} disabled={isSubmitting}>
+          {isSubmitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+          {confirmarLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Muestra la vista previa dentro de un iframe para que los breakpoints respondan al ancho
+ * elegido y no al de la ventana.
+ */
+function MarcoVistaPrevia({ ancho, children }: { ancho: string; children: React.ReactNode }) {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [body, setBody] = useState<HTMLElement | null>(null);
+
+  const handleLoad = () => {
+    const doc = iframeRef.current?.contentDocument;
+    if (!doc) return;
+    // El iframe no hereda los estilos de la página: se copian Tailwind y las fuentes
+    document.head.querySelectorAll('link[rel="stylesheet"], style').forEach((nodo) => {
+      doc.head.appendChild(nodo.cloneNode(true));
+    });
+    doc.body.className = document.body.className;
+    setBody(doc.body);
+  };
+
+  return (
+    <div className="rounded-lg border border-secondary/30 bg-gray-100 p-2 md:p-4">
+      <iframe
+        ref={iframeRef}
+        title="Vista previa del aviso"
+        srcDoc='<!DOCTYPE html><html lang="es"><head></head><body></body></html>'
+        onLoad={handleLoad}
+        style={{ width: ancho }}
+        className="mx-auto block h-[70vh] max-w-full rounded-md border bg-white shadow-sm transition-[width] duration-300"
+      >
+        {body && createPortal(children, body)}
+      </iframe>
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/com
 import { Loader2, Upload } from "lucide-react";
 import { useDropzone } from "react-dropzone";
 import { Oferta } from "@/lib/types/iOferta";
+import { applyToOferta } from "@/lib/api/ofertas";
+import { isApiError } from "@/lib/api/client";
 
 interface ApplyModalProps {
   show: boolean;
@@ -33,26 +35,12 @@ export default function ApplyModal({ show, onClose, oferta, token, userEmail, on
     if (!selectedFile || !userEmail || !oferta?.id) return;
 
     setIsSubmitting(true);
-    const formData = new FormData();
-    formData.append("file", selectedFile);
-    formData.append("applicantEmail", userEmail);
 
     try {
-      const response = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/api/applications/apply/${oferta.id}`, {
-        method: "POST",
-        body: formData,
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(await response.text());
-      }
-
+      await applyToOferta(oferta.id, { file: selectedFile, applicantEmail: userEmail }, token);
       onSuccess();
     } catch (err: unknown) {
-      const errorMessage = err instanceof Error ? err.message : "Intenta de nuevo";
+      const errorMessage = isApiError(err) ? err.backendMessage : err instanceof Error ? err.message : "Intenta de nuevo";
       alert("Error al enviar la postulación: " + errorMessage);
     } finally {
       setIsSubmitting(false);
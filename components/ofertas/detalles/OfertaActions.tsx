@@ -2,27 +2,47 @@ import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Oferta } from "@/lib/types/iOferta";
+import { FormaPostulacion, Oferta } from "@/lib/types/iOferta";
 import { useAddFavorito, useRemoveFavorito, useIsFavoritos } from "@/lib/hooks/useFavoritos";
+import { isCerrada } from "@/lib/cierre";
 import {
   ArrowRight,
   BookmarkPlus,
   CheckCircle,
+  CircleSlash,
   Copy,
   MessageCircle,
   Facebook,
   Mail,
+  MapPin,
+  Clock,
+  Phone,
 } from "lucide-react";
 
+const APPLY_LABELS: Record<Exclude<FormaPostulacion, "PRESENCIAL">, string> = {
+  MAIL: "Postularme ahora",
+  LINK: "Postularme ahora",
+  WHATSAPP: "Postularme por WhatsApp",
+  TELEFONO: "Llamar para postularme",
+};
+
+const APPLY_ICONS: Record<Exclude<FormaPostulacion, "PRESENCIAL">, React.ReactNode> = {
+  MAIL: <Mail className="h-4 w-4" />,
+  LINK: <ArrowRight className="h-4 w-4" />,
+  WHATSAPP: <MessageCircle className="h-4 w-4" />,
+  TELEFONO: <Phone className="h-4 w-4" />,
+};
+
 interface OfertaActionsProps {
   oferta: Oferta;
   isOwnPost: boolean;
   token: string;
   status: "loading" | "authenticated" | "unauthenticated";
   onApply: () => void;
+  onLoginRequired: () => void;
 }
 
-export default function OfertaActions({ oferta, isOwnPost, token, status, onApply }: OfertaActionsProps) {
+export default function OfertaActions({ oferta, isOwnPost, token, status, onApply, onLoginRequired }: OfertaActionsProps) {
   const [copied, setCopied] = useState(false);
   const { data: isFavoriteFromServer, isLoading: isFavoriteLoading } = useIsFavoritos(oferta.id, token);
   const addFavoriteMutation = useAddFavorito();
@@ -32,6 +52,10 @@ export default function OfertaActions({ oferta, isOwnPost, token, status, onAppl
 
   const handleToggleFavorite = (e: React.MouseEvent) => {
     e.preventDefault();
+    if (status === "unauthenticated") {
+      onLoginRequired();
+      return;
+    }
     if (isFavoriteLoading || !token || isOwnPost) return;
 
     const newFavoriteState = !isFavorite;
@@ -73,6 +97,35 @@ export default function OfertaActions({ oferta, isOwnPost, token, status, onAppl
     }
   };
 
+  const applyAction = isCerrada(oferta) ? (
+    <div className="rounded-md border border-gray-300 bg-gray-50 p-4 text-sm text-gray-600 flex items-center gap-2">
+      <CircleSlash className="h-4 w-4" />
+      Búsqueda finalizada, ya no recibe postulaciones.
+    </div>
+  ) : oferta.formaPostulacion === "PRESENCIAL" ? (
+    <div className="rounded-md border border-primary/30 bg-primary/5 p-4 space-y-2 text-sm">
+      <p className="font-semibold text-primary">Presentate con tu CV en:</p>
+      <p className="flex items-center gap-2">
+        <MapPin className="h-4 w-4 text-primary" />
+        {oferta.contactoPostulacion}
+      </p>
+      {oferta.horarioPostulacion && (
+        <p className="flex items-center gap-2">
+          <Clock className="h-4 w-4 text-primary" />
+          {oferta.horarioPostulacion}
+        </p>
+      )}
+    </div>
+  ) : (
+    <Button
+      className="bg-ocean-gradient w-full text-white font-semibold py-2 px-6 rounded-md transition-all duration-300 hover:shadow-lg hover:scale-105 transform"
+      onClick={onApply}
+    >
+      {APPLY_ICONS[oferta.formaPostulacion]}
+      {APPLY_LABELS[oferta.formaPostulacion]}
+    </Button>
+  );
+
   return (
     <>
       <Card className="mb-6 shadow-md md:hidden">
@@ -83,24 +136,14 @@ export default function OfertaActions({ oferta, isOwnPost, token, status, onAppl
           </CardDescription>
         </CardHeader>
         <CardContent className="p-6 space-y-4">
-          <Button
-            className="bg-ocean-gradient w-full text-white font-semibold py-2 px-6 rounded-md transition-all duration-300 hover:shadow-lg hover:scale-105 transform"
-            onClick={onApply}
-          >
-            {oferta.formaPostulacion === "MAIL" ? (
-              <Mail className="h-4 w-4" />
-            ) : (
-              <ArrowRight className="h-4 w-4" />
-            )}
-            Postularme ahora
-          </Button>
+          {applyAction}
 
-          {status === "authenticated" && !isOwnPost && (
+          {status !== "loading" && !isOwnPost && (
             <Button
               variant="outline"
               className="w-full border-primary text-primary hover:bg-primary/10 flex items-center gap-2"
               onClick={handleToggleFavorite}
-              disabled={isFavoriteLoading || !token || addFavoriteMutation.isPending || removeFavoriteMutation.isPending}
+              disabled={status === "authenticated" && (isFavoriteLoading || !token || addFavoriteMutation.isPending || removeFavoriteMutation.isPending)}
             >
               <BookmarkPlus className="h-4 w-4" />
               {isFavorite ? "Guardado" : "Guardar empleo"}
@@ -177,24 +220,14 @@ export default function OfertaActions({ oferta, isOwnPost, token, status, onAppl
             </CardDescription>
           </CardHeader>
           <CardContent className="p-6 space-y-4">
-            <Button
-              className="bg-ocean-gradient w-full text-white font-semibold py-2 px-6 rounded-md transition-all duration-300 hover:shadow-lg hover:scale-105 transform"
-              onClick={onApply}
-            >
-              {oferta.formaPostulacion === "MAIL" ? (
-                <Mail className="h-4 w-4" />
-              ) : (
-                <ArrowRight className="h-4 w-4" />
-              )}
-              Postularme ahora
-            </Button>
+            {applyAction}
 
-            {status === "authenticated" && !isOwnPost && (
+            {status !== "loading" && !isOwnPost && (
               <Button
                 variant="outline"
                 className="w-full border-primary text-primary hover:bg-primary/10 flex items-center gap-2"
                 onClick={handleToggleFavorite}
-                disabled={isFavoriteLoading || !token || addFavoriteMutation.isPending || removeFavoriteMutation.isPending}
+                disabled={status === "authenticated" && (isFavoriteLoading || !token || addFavoriteMutation.isPending || removeFavoriteMutation.isPending)}
               >
                 <BookmarkPlus className="h-4 w-4" />
                 {isFavorite ? "Guardado" : "Guardar empleo"}
@@ -1,6 +1,21 @@
 import { Oferta } from "@/lib/types/iOferta";
 import { Button } from "@/components/ui/button";
-import { Calendar, Clock, MapPin, Mail, Link as LinkIcon } from "lucide-react";
+import { Calendar, Clock, MapPin, Mail, Link as LinkIcon, Banknote, Briefcase, MessageCircle, Phone, Store } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { formatSalario } from "@/lib/salario";
+import { FORMA_POSTULACION_LABELS, JORNADA_LABELS, MODALIDAD_LABELS } from "@/lib/condiciones";
+import { telefonoPostulacionHref, whatsappPostulacionHref } from "@/lib/postulacion";
+import { FormaPostulacion } from "@/lib/types/iOferta";
+import { formatUbicacion } from "@/lib/localidades";
+import { isCerrada } from "@/lib/cierre";
+
+const FORMA_POSTULACION_ICONS: Record<FormaPostulacion, React.ReactNode> = {
+  MAIL: <Mail className="h-5 w-5 text-primary" />,
+  LINK: <LinkIcon className="h-5 w-5 text-primary" />,
+  WHATSAPP: <MessageCircle className="h-5 w-5 text-primary" />,
+  TELEFONO: <Phone className="h-5 w-5 text-primary" />,
+  PRESENCIAL: <Store className="h-5 w-5 text-primary" />,
+};
 
 interface OfertaDetailsProps {
   oferta: Oferta;
@@ -15,6 +30,8 @@ const formatDate = (dateString: string) => {
 };
 
 export default function OfertaDetails({ oferta }: OfertaDetailsProps) {
+  const salario = formatSalario(oferta);
+
   return (
     <div className="bg-white rounded-lg shadow-md p-6 md:p-8 mb-6">
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6 mb-8">
@@ -47,31 +64,90 @@ export default function OfertaDetails({ oferta }: OfertaDetailsProps) {
           <MapPin className="h-5 w-5 text-primary" />
           <div>
             <p className="text-sm font-medium text-gray-500">Ubicación</p>
-            <p>Puerto Madryn</p>
+            <p>{formatUbicacion(oferta)}</p>
+            {oferta.direccion && <p className="text-sm text-gray-500">{oferta.direccion}</p>}
           </div>
         </div>
 
         <div className="flex items-center gap-3 text-gray-700">
-          {oferta.formaPostulacion === "MAIL" ? (
-            <Mail className="h-5 w-5 text-primary" />
-          ) : (
-            <LinkIcon className="h-5 w-5 text-primary" />
-          )}
+          <Banknote className="h-5 w-5 text-primary" />
+          <div>
+            <p className="text-sm font-medium text-gray-500">Salario</p>
+            <p>{salario ?? "No informado"}</p>
+          </div>
+        </div>
+
+        {(oferta.modalidad || oferta.jornada) && (
+          <div className="flex items-center gap-3 text-gray-700">
+            <Briefcase className="h-5 w-5 text-primary" />
+            <div>
+              <p className="text-sm font-medium text-gray-500">Modalidad y jornada</p>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {oferta.modalidad && <Badge variant="outline">{MODALIDAD_LABELS[oferta.modalidad]}</Badge>}
+                {oferta.jornada && <Badge variant="outline">{JORNADA_LABELS[oferta.jornada]}</Badge>}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center gap-3 text-gray-700">
+          {FORMA_POSTULACION_ICONS[oferta.formaPostulacion]}
           <div>
             <p className="text-sm font-medium text-gray-500">Forma de postulación</p>
-            <p>{oferta.formaPostulacion === "MAIL" ? "Email" : "Link externo"}</p>
+            <p>{FORMA_POSTULACION_LABELS[oferta.formaPostulacion]}</p>
           </div>
         </div>
       </div>
 
       <div className="border-t border-gray-200 pt-6">
         <h3 className="text-lg md:text-xl font-bold text-primary mb-4">¿Cómo aplicar?</h3>
-        {oferta.formaPostulacion === "MAIL" ? (
+        {isCerrada(oferta) ? (
+          <p className="text-gray-700 text-sm md:text-base">
+            Esta búsqueda ya finalizó y no recibe más postulaciones.
+          </p>
+        ) : oferta.formaPostulacion === "MAIL" ? (
           <div className="flex">
             <p className="text-gray-700 text-sm md:text-base">
               Envía tu CV a: <span className="text-primary">{oferta.contactoPostulacion}</span>
             </p>
           </div>
+        ) : oferta.formaPostulacion === "WHATSAPP" ? (
+          <div className="flex flex-col space-y-2">
+            <p className="text-gray-700 text-sm md:text-base">
+              Escribí por WhatsApp al <span className="text-primary">{oferta.contactoPostulacion}</span>
+            </p>
+            <Button
+              className="bg-primary hover:bg-primary/90 text-primary-foreground w-full md:w-auto"
+              asChild
+            >
+              <a href={whatsappPostulacionHref(oferta) || "#"} target="_blank" rel="noopener noreferrer">
+                <MessageCircle className="mr-2 h-4 w-4" />
+                Enviar WhatsApp
+              </a>
+            </Button>
+          </div>
+        ) : oferta.formaPostulacion === "TELEFONO" ? (
+          <div className="flex flex-col space-y-2">
+            <p className="text-gray-700 text-sm md:text-base">
+              Llamá al <span className="text-primary">{oferta.contactoPostulacion}</span>
+            </p>
+            <Button
+              className="bg-primary hover:bg-primary/90 text-primary-foreground w-full md:w-auto"
+              asChild
+            >
+              <a href={telefonoPostulacionHref(oferta) || "#"}>
+                <Phone className="mr-2 h-4 w-4" />
+                Llamar
+              </a>
+            </Button>
+          </div>
+        ) : oferta.formaPostulacion === "PRESENCIAL" ? (
+          <div className="flex flex-col space-y-2 text-gray-700 text-sm md:text-base">
+            <p>
+              Presentate con tu CV en: <span className="text-primary">{oferta.contactoPostulacion}</span>
+            </p>
+            {oferta.horarioPostulacion && <p>Horario: {oferta.horarioPostulacion}</p>}
+          </div>
         ) : (
           <div className="flex flex-col space-y-2">
             <Button
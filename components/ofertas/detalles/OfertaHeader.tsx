@@ -5,23 +5,17 @@ import { Oferta } from "@/lib/types/iOferta";
 import { Badge } from "@/components/ui/badge";
 import { Building } from "lucide-react";
 import { useState } from "react";
+import Link from "next/link";
+import { etiquetaHref } from "@/lib/etiquetas";
+import { empresaHref, getLogoUrl } from "@/lib/empresas";
 
 interface OfertaHeaderProps {
   oferta: Oferta;
 }
 
-const DEFAULT_LOGO_URL = "https://example.com/default-logo.png";
-
-const getLogoUrl = (logoUrl: string | null | undefined): string | null => {
-  if (!logoUrl || logoUrl === DEFAULT_LOGO_URL) {
-    return null;
-  }
-  const isExternalUrl = logoUrl.startsWith("http://") || logoUrl.startsWith("https://");
-  return isExternalUrl ? logoUrl : `${process.env.NEXT_PUBLIC_API_URL}${logoUrl}`;
-};
-
 export default function OfertaHeader({ oferta }: OfertaHeaderProps) {
   const [logoError, setLogoError] = useState(false);
+  const logoUrl = oferta.logoUrl ?? oferta.empresa?.logoUrl;
 
   return (
     <div className="bg-ocean-gradient rounded-lg p-6 mb-6 shadow-md text-white">
@@ -29,20 +23,40 @@ export default function OfertaHeader({ oferta }: OfertaHeaderProps) {
         <div className="space-y-2 text-center md:text-start">
           <h1 className="text-sm md:text-xl md:text-start font-bold uppercase">{oferta.titulo}</h1>
           <div className="flex justify-between md:flex-col">
-            <p className="text-xs uppercase md:text-base text-white/90 font-medium">{oferta.empresaConsultora}</p>
+            {oferta.empresa ? (
+              <Link
+                href={empresaHref(oferta.empresa.slug)}
+                className="text-xs uppercase md:text-base text-white/90 font-medium hover:underline"
+              >
+                {oferta.empresa.nombre}
+              </Link>
+            ) : (
+              <p className="text-xs uppercase md:text-base text-white/90 font-medium">{oferta.empresaConsultora}</p>
+            )}
             <div className="inline-flex md:mt-2">
               <Badge className="bg-white text-primary text-xs md:text-base font-medium">
                 {oferta.categoria.nombre}
               </Badge>
             </div>
           </div>
+          {oferta.etiquetas && oferta.etiquetas.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-2 md:justify-start">
+              {oferta.etiquetas.map((etiqueta) => (
+                <Link key={etiqueta} href={etiquetaHref(etiqueta)}>
+                  <Badge variant="outline" className="border-white/60 text-white font-normal hover:bg-white/20">
+                    #{etiqueta}
+                  </Badge>
+                </Link>
+              ))}
+            </div>
+          )}
         </div>
         <div className="p-3 bg-white/20 rounded-full self-center md:self-start hidden md:block">
-          {logoError || !getLogoUrl(oferta.logoUrl) ? (
+          {logoError || !getLogoUrl(logoUrl) ? (
             <Building className="h-8 w-8 md:h-10 md:w-10" />
           ) : (
             <Image
-              src={getLogoUrl(oferta.logoUrl) as string}
+              src={getLogoUrl(logoUrl) as string}
               alt={oferta.empresaConsultora}
               width={80}
               height={80}
@@ -0,0 +1,4 @@
+// Valores compartidos entre la configuración de Playwright y los fixtures
+export const E2E_PORT = 3100;
+export const E2E_BASE_URL = `http://localhost:${E2E_PORT}`;
+export const E2E_AUTH_SECRET = "madryn-empleos-e2e";
@@ -0,0 +1,50 @@
+import { expect, test } from "./fixtures";
+
+test("un candidato guarda un aviso y lo ve en sus favoritos", async ({ page, loginAs }) => {
+  await loginAs("candidato");
+  await page.goto("/mis-favoritos");
+  await expect(page.getByText("Aún no tienes avisos en favoritos.")).toBeVisible();
+
+  await page.goto("/detalles-empleo/cocinero-a-de-linea-oferta-2");
+  await page.getByRole("button", { name: "Guardar empleo" }).click();
+  await expect(page.getByRole("button", { name: "Guardado" })).toBeVisible();
+
+  await page.goto("/mis-favoritos");
+  await expect(page.getByText("Cocinero/a de línea")).toBeVisible();
+
+  await page.goto("/detalles-empleo/cocinero-a-de-linea-oferta-2");
+  await page.getByRole("button", { name: "Guardado" }).click();
+  await expect(page.getByRole("button", { name: "Guardar empleo" })).toBeVisible();
+
+  await page.goto("/mis-favoritos");
+  await expect(page.getByText("Aún no tienes avisos en favoritos.")).toBeVisible();
+});
+
+test("el empleador no puede guardar sus propios avisos", async ({ page, loginAs }) => {
+  await loginAs("empleador");
+  await page.goto("/detalles-empleo/cocinero-a-de-linea-oferta-2");
+
+  await expect(page.getByRole("heading", { name: "Cocinero/a de línea" })).toBeVisible();
+  await expect(page.getByRole("button", { name: "Guardar empleo" })).toHaveCount(0);
+});
+
+test("sin sesión, mis favoritos lleva al login conservando el destino", async ({ page }) => {
+  await page.goto("/mis-favoritos");
+
+  await expect(page).toHaveURL("/login?callbackUrl=%2Fmis-favoritos");
+  await expect(page.getByRole("heading", { name: "Mis favoritos" })).toHaveCount(0);
+});
+
+test("sin sesión, guardar un aviso pasa por el login y lo guarda al volver", async ({ page, loginAs }) => {
+  const detalle = "/detalles-empleo/cocinero-a-de-linea-oferta-2";
+  await page.goto(detalle);
+
+  await page.getByRole("button", { name: "Guardar empleo" }).click();
+  await expect(page).toHaveURL(`/login?callbackUrl=${encodeURIComponent(`${detalle}?accion=guardar`)}`);
+
+  await loginAs("candidato");
+  await page.goto(`${detalle}?accion=guardar`);
+
+  await expect(page.getByRole("button", { name: "Guardado" })).toBeVisible();
+  await expect(page).toHaveURL(detalle);
+});
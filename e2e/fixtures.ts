@@ -0,0 +1,49 @@
+import { test as base, expect } from "@playwright/test";
+import { encode } from "next-auth/jwt";
+import { createMockToken } from "@/lib/mock/db";
+import { MockUsuario, mockUsuarios } from "@/lib/mock/fixtures";
+import { E2E_AUTH_SECRET, E2E_BASE_URL } from "./env";
+
+type UsuarioE2E = "admin" | "moderador" | "empleador" | "candidato";
+
+interface E2EFixtures {
+  /** Inicia sesión sin pasar por Google, escribiendo la cookie de sesión de NextAuth. */
+  loginAs: (usuario: UsuarioE2E) => Promise<MockUsuario>;
+}
+
+const findUsuario = (usuario: UsuarioE2E): MockUsuario =>
+  mockUsuarios.find((u) => u.id === `usuario-${usuario}`)!;
+
+export const test = base.extend<E2EFixtures & { resetMock: void }>({
+  resetMock: [
+    async ({ request }, use) => {
+      const response = await request.post("/mock/__reset");
+      expect(response.ok(), "el backend simulado tiene que estar activo (NEXT_PUBLIC_MOCK_API=true)").toBeTruthy();
+      await use();
+    },
+    { auto: true },
+  ],
+
+  loginAs: async ({ context }, use) => {
+    await use(async (nombre) => {
+      const usuario = findUsuario(nombre);
+      const sessionToken = await encode({
+        secret: E2E_AUTH_SECRET,
+        token: {
+          sub: usuario.id,
+          id: usuario.id,
+          name: usuario.nombre,
+          email: usuario.email,
+          rol: usuario.rol,
+          backendToken: createMockToken(usuario.id),
+          backendTokenExpires: Date.now() + 60 * 60 * 1000,
+        },
+      });
+      await context.clearCookies();
+      await context.addCookies([{ name: "next-auth.session-token", value: sessionToken, url: E2E_BASE_URL }]);
+      return usuario;
+    });
+  },
+});
+
+export { expect };
@@ -0,0 +1,35 @@
+import { expect, test } from "./fixtures";
+
+const DETALLE = "/detalles-empleo/recepcionista-bilingue-oferta-1";
+
+test("un candidato se postula enviando su CV", async ({ page, loginAs }) => {
+  await loginAs("candidato");
+  await page.goto(DETALLE);
+
+  await expect(page.getByRole("heading", { name: "Recepcionista bilingüe" })).toBeVisible();
+  await page.getByRole("button", { name: "Postularme ahora" }).click();
+
+  await expect(page.getByText("Subir currículum")).toBeVisible();
+  await page.locator('input[type="file"]').setInputFiles({
+    name: "cv-candidata.pdf",
+    mimeType: "application/pdf",
+    buffer: Buffer.from("%PDF-1.4 cv de prueba"),
+  });
+  await expect(page.getByText("cv-candidata.pdf")).toBeVisible();
+  await page.getByRole("button", { name: "Enviar" }).click();
+
+  await expect(page.getByText("¡Postulación enviada!")).toBeVisible();
+});
+
+test("sin sesión, postularse pasa por el login y vuelve al formulario", async ({ page, loginAs }) => {
+  await page.goto(DETALLE);
+
+  await page.getByRole("button", { name: "Postularme ahora" }).click();
+  await expect(page).toHaveURL(`/login?callbackUrl=${encodeURIComponent(`${DETALLE}?accion=postular`)}`);
+
+  await loginAs("candidato");
+  await page.goto(`${DETALLE}?accion=postular`);
+
+  await expect(page.getByText("Subir currículum")).toBeVisible();
+  await expect(page).toHaveURL(DETALLE);
+});
@@ -0,0 +1,62 @@
+import { expect, test } from "./fixtures";
+
+const TITULO = "Guía de avistaje embarcado";
+
+test("un empleador publica un aviso y un administrador lo habilita", async ({ page, loginAs }) => {
+  await loginAs("empleador");
+  await page.goto("/nuevo-aviso");
+
+  await page.getByLabel("Título del empleo").fill(TITULO);
+  await page.locator(".ProseMirror").fill("Buscamos guía bilingüe para salidas de avistaje de ballenas.");
+  // El empleador ya publicó con otras empresas, así que elige cargar una nueva
+  await page.getByRole("combobox").filter({ hasText: "Hotel Costanera" }).click();
+  await page.getByRole("option", { name: "Otra empresa" }).click();
+  await page.getByLabel("Nombre de la empresa").fill("Puerto Pirámides Tours");
+  await page.getByRole("combobox").filter({ hasText: "Selecciona una categoría" }).click();
+  await page.getByRole("option", { name: "Turismo" }).click();
+  await page.getByRole("combobox").filter({ hasText: "Selecciona una modalidad" }).click();
+  await page.getByRole("option", { name: "Presencial" }).click();
+  await page.getByRole("combobox").filter({ hasText: "Selecciona una jornada" }).click();
+  await page.getByRole("option", { name: "Temporada" }).click();
+  await page.getByLabel("Email de contacto").fill("rrhh@piramidestours.test");
+  await page.getByRole("button", { name: "Publicar empleo" }).click();
+
+  await expect(page.getByText("¡Oferta enviada con éxito!", { exact: false })).toBeVisible();
+
+  // Mientras no se habilite no aparece en el listado público
+  await page.goto("/avisos");
+  await expect(page.getByText("Recepcionista bilingüe")).toBeVisible();
+  await expect(page.getByText(TITULO)).toHaveCount(0);
+
+  await loginAs("admin");
+  await page.goto("/admin");
+  const card = page.locator("div.bg-white").filter({ has: page.getByRole("heading", { name: TITULO }) });
+  await expect(card).toBeVisible();
+  await card.getByRole("button", { name: "Habilitar" }).click();
+  await expect(page.getByRole("heading", { name: TITULO })).toHaveCount(0);
+
+  await page.goto("/avisos");
+  await page.getByRole("link", { name: new RegExp(TITULO) }).click();
+  await expect(page).toHaveURL(/\/detalles-empleo\/guia-de-avistaje-embarcado-/);
+  await expect(page.getByRole("heading", { name: TITULO })).toBeVisible();
+
+  await page.getByRole("link", { name: "Puerto Pirámides Tours" }).click();
+  await expect(page).toHaveURL("/empresas/puerto-piramides-tours");
+  await expect(page.getByRole("link", { name: new RegExp(TITULO) })).toBeVisible();
+});
+
+test("un usuario sin permisos no puede entrar al panel de administración", async ({ page, loginAs }) => {
+  await loginAs("candidato");
+  await page.goto("/admin");
+
+  await expect(page).toHaveURL("/");
+});
+
+test("un moderador modera avisos pero no gestiona imágenes", async ({ page, loginAs }) => {
+  await loginAs("moderador");
+  await page.goto("/admin");
+  await expect(page.getByRole("heading", { name: "Vendedor/a de mostrador" })).toBeVisible();
+
+  await page.goto("/admin/imagenes");
+  await expect(page).toHaveURL("/");
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest";
+import type { JWT } from "next-auth/jwt";
+import {
+  ensureFreshBackendToken,
+  getBackendTokenExpiry,
+  loginWithEmailToken,
+  loginWithGoogle,
+  SESSION_REFETCH_INTERVAL_S,
+} from "./auth";
+import { mockFetch } from "@/test/utils";
+
+const NOW = Date.UTC(2026, 4, 1);
+
+const jwtWithExp = (exp: number) => `header.${btoa(JSON.stringify({ exp }))}.firma`;
+
+const sessionToken = (overrides: Partial<JWT> = {}): JWT => ({
+  id: "usuario-1",
+  backendToken: "token-viejo",
+  backendTokenExpires: NOW + 60 * 60 * 1000,
+  ...overrides,
+});
+
+describe("auth", () => {
+  it("convierte el id de usuario a string al iniciar sesión", async () => {
+    mockFetch({ body: { token: "token", usuarioId: 7, expiresIn: 3600, rol: "MODERATOR" } });
+
+    await expect(
+      loginWithGoogle({ tokenId: "id", googleId: "sub", email: "a@b.test", name: "Ana" })
+    ).resolves.toEqual({ token: "token", usuarioId: "7", expiresIn: 3600, rol: "MODERATOR" });
+  });
+
+  it("asume el rol de usuario si el backend no lo informa", async () => {
+    mockFetch({ body: { token: "token", usuarioId: "7" } });
+
+    await expect(
+      loginWithGoogle({ tokenId: "id", googleId: "sub", email: "a@b.test", name: "Ana" })
+    ).resolves.toMatchObject({ rol: "USER" });
+  });
+
+  it("canjea el token del enlace por email", async () => {
+    const fetchMock = mockFetch({
+      body: { token: "token", usuarioId: "7", email: "pesquera@golfo.test", nombre: null },
+    });
+
+    await expect(loginWithEmailToken("token-unico")).resolves.toMatchObject({
+      token: "token",
+      email: "pesquera@golfo.test",
+      rol: "USER",
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://api.test/api/auth/email/verify");
+    expect(JSON.parse(init.body)).toEqual({ loginToken: "token-unico" });
+  });
+
+  describe("getBackendTokenExpiry", () => {
+    it("prioriza expiresIn", () => {
+      expect(getBackendTokenExpiry({ token: jwtWithExp(1), expiresIn: 60 }, NOW)).toBe(NOW + 60 * 1000);
+    });
+
+    it("lee el exp del JWT", () => {
+      expect(getBackendTokenExpiry({ token: jwtWithExp(NOW / 1000 + 120) }, NOW)).toBe(NOW + 120 * 1000);
+    });
+
+    it("usa una hora si el token no es un JWT", () => {
+      expect(getBackendTokenExpiry({ token: "opaco" }, NOW)).toBe(NOW + 60 * 60 * 1000);
+    });
+  });
+
+  describe("ensureFreshBackendToken", () => {
+    it("no renueva un token vigente", async () => {
+      const fetchMock = mockFetch();
+      const token = sessionToken();
+
+      await expect(ensureFreshBackendToken(token, NOW)).resolves.toBe(token);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("renueva el token si vencería antes de la próxima consulta de la sesión", async () => {
+      const fetchMock = mockFetch({ body: { token: "token-nuevo", expiresIn: 3600 } });
+      const vence = NOW + SESSION_REFETCH_INTERVAL_S * 1000 + 60 * 1000;
+
+      const refreshed = await ensureFreshBackendToken(sessionToken({ backendTokenExpires: vence }), NOW);
+
+      expect(refreshed.backendToken).toBe("token-nuevo");
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it("renueva el token cuando está por vencer", async () => {
+      const fetchMock = mockFetch({ body: { token: "token-nuevo", expiresIn: 3600 } });
+
+      const refreshed = await ensureFreshBackendToken(sessionToken({ backendTokenExpires: NOW + 30 * 1000 }), NOW);
+
+      expect(refreshed).toMatchObject({ backendToken: "token-nuevo", backendTokenExpires: NOW + 3600 * 1000 });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("http://api.test/api/auth/refresh");
+      expect(init).toMatchObject({ method: "POST", headers: { Authorization: "Bearer token-viejo" } });
+    });
+
+    it("marca el error si el backend rechaza la renovación", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockFetch({ status: 401, body: "Token inválido o expirado" });
+
+      const refreshed = await ensureFreshBackendToken(sessionToken({ backendTokenExpires: NOW - 1 }), NOW);
+
+      expect(refreshed).toMatchObject({ backendToken: "token-viejo", error: "RefreshTokenError" });
+    });
+
+    it("conserva el token ante un error de red para reintentar después", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("fetch failed")));
+      const token = sessionToken({ backendTokenExpires: NOW - 1 });
+
+      await expect(ensureFreshBackendToken(token, NOW)).resolves.toBe(token);
+    });
+
+    it("conserva el token si el backend falla al renovarlo", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      mockFetch({ status: 503, body: "Servicio no disponible" });
+      const token = sessionToken({ backendTokenExpires: NOW - 1 });
+
+      await expect(ensureFreshBackendToken(token, NOW)).resolves.toBe(token);
+    });
+
+    it("no vuelve a intentar una vez marcado el error", async () => {
+      const fetchMock = mockFetch();
+      const token = sessionToken({ backendTokenExpires: NOW - 1, error: "RefreshTokenError" });
+
+      await expect(ensureFreshBackendToken(token, NOW)).resolves.toBe(token);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { z } from "zod";
+import type { JWT } from "next-auth/jwt";
+import { rolSchema } from "../types/iRol";
+import { apiJson, isApiError } from "./client";
+
+export const EMAIL_LINK_PROVIDER = "email-link";
+export const EMAIL_VERIFY_PATH = "/login/verificar";
+
+// Si el backend no informa el vencimiento se asume esta duración para renovarlo a tiempo
+const DEFAULT_TOKEN_LIFETIME_MS = 60 * 60 * 1000;
+
+// Cada consulta de la sesión pasa por el callback `jwt`, que renueva el token del backend si está por vencer
+export const SESSION_REFETCH_INTERVAL_S = 5 * 60;
+
+// La renovación sólo ocurre al consultar la sesión, así que el margen cubre dos intervalos:
+// el token nunca vence entre una consulta y la siguiente aunque alguna se demore
+const REFRESH_MARGIN_MS = 2 * SESSION_REFETCH_INTERVAL_S * 1000;
+
+const backendTokenSchema = z.object({
+  token: z.string(),
+  expiresIn: z.number().positive().optional(),
+});
+
+const loginResponseSchema = backendTokenSchema.extend({
+  usuarioId: z.coerce.string(),
+  rol: rolSchema.default("USER"),
+  email: z.string().email().optional(),
+  nombre: z.string().nullish(),
+});
+
+const emailLoginTokenSchema = z.object({
+  loginToken: z.string(),
+});
+
+export type BackendToken = z.infer<typeof backendTokenSchema>;
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+export type EmailLoginToken = z.infer<typeof emailLoginTokenSchema>;
+
+
+export async function loginWithGoogle(data: {
+  tokenId: string;
+  googleId: string;
+  email: string;
+  name: string;
+}): Promise<LoginResponse> {
+  return apiJson("/api/auth/google", loginResponseSchema, {
+    method: "POST",
+    body: data,
+  });
+}
+
+
+/**
+ * Pide al backend un token de un solo uso para iniciar sesión por email. El backend crea
+ * el usuario si no existe, igual que con Google; el token viaja sólo en el enlace del correo.
+ */
+export async function requestEmailLoginToken(email: string): Promise<EmailLoginToken> {
+  return apiJson("/api/auth/email/link", emailLoginTokenSchema, {
+    method: "POST",
+    body: { email },
+  });
+}
+
+
+export async function loginWithEmailToken(loginToken: string): Promise<LoginResponse> {
+  return apiJson("/api/auth/email/verify", loginResponseSchema, {
+    method: "POST",
+    body: { loginToken },
+  });
+}
+
+
+export async function refreshBackendToken(token: string): Promise<BackendToken> {
+  return apiJson("/api/auth/refresh", backendTokenSchema, { method: "POST", token });
+}
+
+
+const readJwtExpiry = (token: string): number | null => {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+  try {
+    const { exp } = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Calcula cuándo vence el token del backend: usa `expiresIn` si viene en la respuesta,
+ * si no el `exp` del JWT y, como último recurso, una duración por defecto.
+ */
+export function getBackendTokenExpiry({ token, expiresIn }: BackendToken, now = Date.now()): number {
+  if (expiresIn) return now + expiresIn * 1000;
+  return readJwtExpiry(token) ?? now + DEFAULT_TOKEN_LIFETIME_MS;
+}
+
+/**
+ * Devuelve el JWT de NextAuth con un token del backend vigente, renovándolo si está
+ * por vencer. Si el backend rechaza la renovación (401/403) se marca `error` para que el
+ * cliente pida volver a iniciar sesión; ante un error de red o del servidor se conserva el
+ * token para reintentar en la próxima consulta de la sesión.
+ */
+export async function ensureFreshBackendToken(token: JWT, now = Date.now()): Promise<JWT> {
+  if (!token.backendToken || token.error) return token;
+  if (token.backendTokenExpires && now < token.backendTokenExpires - REFRESH_MARGIN_MS) {
+    return token;
+  }
+
+  try {
+    const refreshed = await refreshBackendToken(token.backendToken);
+    return {
+      ...token,
+      backendToken: refreshed.token,
+      backendTokenExpires: getBackendTokenExpiry(refreshed, now),
+    };
+  } catch (error) {
+    if (isApiError(error) && error.isUnauthorized) {
+      console.error("Error refreshing backend token:", error);
+      return { ...token, error: "RefreshTokenError" };
+    }
+    console.warn("No se pudo renovar el token, se reintentará:", error);
+    return token;
+  }
+}
@@ -0,0 +1,18 @@
+import { z } from "zod";
+import { Borrador, borradorSchema } from "@/lib/types/iBorrador";
+import { apiJson, apiRequest, RequestConfig } from "./client";
+
+
+export async function fetchBorradores(token: string, config: RequestConfig = {}): Promise<Borrador[]> {
+  return apiJson("/api/borradores", z.array(borradorSchema), { ...config, token });
+}
+
+
+export async function saveBorrador(borrador: Borrador, token: string): Promise<Borrador> {
+  return apiJson(`/api/borradores/${borrador.id}`, borradorSchema, { method: "PUT", token, body: borrador });
+}
+
+
+export async function deleteBorrador(id: string, token: string): Promise<void> {
+  await apiRequest(`/api/borradores/${id}`, { method: "DELETE", token });
+}
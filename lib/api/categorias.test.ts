@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from "vitest";
+import { fetchCategorias, fetchRandomCategoriaImage } from "./categorias";
+import { ApiError } from "./client";
+import { mockCategorias } from "@/lib/mock/fixtures";
+import { mockFetch } from "@/test/utils";
+
+describe("categorias", () => {
+  it("devuelve las categorías validadas", async () => {
+    mockFetch({ body: mockCategorias });
+
+    await expect(fetchCategorias()).resolves.toEqual(mockCategorias);
+  });
+
+  it("usa el logo por defecto si la categoría no tiene imágenes", async () => {
+    mockFetch({ status: 404, body: "Sin imágenes" });
+
+    await expect(fetchRandomCategoriaImage("cat-otros")).resolves.toBe("/lib/logo.jpeg");
+  });
+
+  it("propaga los errores de conexión", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("Failed to fetch")));
+
+    await expect(fetchRandomCategoriaImage("cat-otros")).rejects.toBeInstanceOf(ApiError);
+  });
+});
@@ -1,131 +1,45 @@
-import { Categoria } from "../types/iCategoria";
+import { z } from "zod";
+import { Categoria, categoriaSchema } from "../types/iCategoria";
+import { apiJson, apiText, isApiError, RequestConfig } from "./client";
 
-const apiUrl = process.env.NEXT_PUBLIC_API_URL;
+const DEFAULT_CATEGORIA_IMAGE = "/lib/logo.jpeg";
 
-export async function fetchRandomCategoriaImage(id: string): Promise<string> {
+export async function fetchRandomCategoriaImage(id: string, config: RequestConfig = {}): Promise<string> {
     try {
-        const response = await fetch(`${apiUrl}/api/categorias/imagenes/${id}`, {
-            method: "GET",
-            headers: {
-                "Content-Type": "application/json",
-            },
-        });
-        if (!response.ok) {
-            return "/lib/logo.jpeg";
+        return await apiText(`/api/categorias/imagenes/${id}`, config);
+    } catch (error) {
+        if (isApiError(error) && !error.isNetworkError) {
+            return DEFAULT_CATEGORIA_IMAGE;
         }
-        const data = await response.text();
-        return data;
-    } catch (err) {
-        throw new Error(err instanceof Error ? err.message : "Error desconocido al cargar las categorías");
+        throw error;
     }
 }
 
 
-export async function fetchCategorias(): Promise<Categoria[]> {
-    try {
-        const response = await fetch(`${apiUrl}/api/categorias`, {
-            method: "GET",
-            headers: {
-                "Content-Type": "application/json",
-            },
-        });
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Error ${response.status}: ${errorText}`);
-        }
-        const data = await response.json();
-        if (!Array.isArray(data)) {
-            throw new Error("La respuesta del servidor no es un array válido");
-        }
-        return data as Categoria[];
-    } catch (err) {
-
-        throw new Error(err instanceof Error ? err.message : "Error desconocido al cargar las categorías");
-    }
+export async function fetchCategorias(config: RequestConfig = {}): Promise<Categoria[]> {
+    return apiJson("/api/categorias", z.array(categoriaSchema), config);
 }
 
-export async function fetchaAllCategoriasImages(id: string, token: string): Promise<string[]> {
-    try {
-        const response = await fetch(`${apiUrl}/api/categorias/imagenes/all/${id}`, {
-            method: "GET",
-            headers: {
-                "Authorization": `Bearer ${token}`,
-              },
-        });
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Error ${response.status}: ${errorText}`);
-        }
-        const data = await response.json();
-        if (!Array.isArray(data)) {
-            throw new Error("La respuesta del servidor no es un array válido");
-        }
-        return data as string[];
-    } catch (err) {
-        throw new Error(err instanceof Error ? err.message : "Error desconocido al cargar las categorías");
-    }
+export async function fetchaAllCategoriasImages(id: string, token: string, config: RequestConfig = {}): Promise<string[]> {
+    return apiJson(`/api/categorias/imagenes/all/${id}`, z.array(z.string()), { ...config, token });
 }
 
-export async function fetchCategoriaImages(id: string, token: string): Promise<string> {
-    try {
-        const response = await fetch(`${apiUrl}/api/categorias/imagenes/${id}`, {
-            method: "GET",
-            headers: {
-                "Authorization": `Bearer ${token}`,
-              },
-        });
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Error ${response.status}: ${errorText}`);
-        }
-        const data = await response.json();
-        return data as string;
-    } catch (err) {
-        throw new Error(err instanceof Error ? err.message : "Error desconocido al cargar la categoría");
-    }
+export async function fetchCategoriaImages(id: string, token: string, config: RequestConfig = {}): Promise<string> {
+    return apiJson(`/api/categorias/imagenes/${id}`, z.string(), { ...config, token });
 }
 
 export async function createCategoriaImage(id: string, imageUrl: string, token: string): Promise<string> {
-    try {
-        const response = await fetch(`${apiUrl}/api/categorias/imagenes/${id}`, {
-            method: "POST",
-            headers: {
-                "Authorization": `Bearer ${token}`,
-            },
-            body:imageUrl as string,
-        });
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Error ${response.status}: ${errorText}`);
-        }
-        const data = await response.json();
-        return data as string;
-    } catch (error) {
-        throw error instanceof Error 
-            ? error
-            : new Error(error instanceof Error ? error.message : "Error desconocido al crear la imagen de la categoría");
-    }
+    return apiJson(`/api/categorias/imagenes/${id}`, z.string(), {
+        method: "POST",
+        token,
+        body: imageUrl,
+    });
 }
 
 export async function deleteCategoriaImage(id: string, imageUrl: string, token: string): Promise<string> {
-    try {
-        const response = await fetch(`${apiUrl}/api/categorias/imagenes/${id}`, {
-            method: "DELETE",
-            headers: {
-                "Authorization": `Bearer ${token}`,
-              },
-            body: imageUrl as string,
-        });
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`Error ${response.status}: ${errorText}`);
-        }
-        const data = await response.json();
-        return data as string;
-    } catch (error) {
-        throw error instanceof Error 
-            ? error
-            : new Error(error instanceof Error ? error.message : "Error desconocido al eliminar la imagen de la categoría");
-    }
+    return apiJson(`/api/categorias/imagenes/${id}`, z.string(), {
+        method: "DELETE",
+        token,
+        body: imageUrl,
+    });
 }
-
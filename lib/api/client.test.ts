@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { ApiError, apiJson, apiRequest, InvalidResponseError, withQuery } from "./client";
+import { mockFetch } from "@/test/utils";
+
+describe("apiRequest", () => {
+  it("agrega la URL del backend y el token Bearer", async () => {
+    const fetchMock = mockFetch({ body: "ok" });
+
+    await apiRequest("/api/favoritos", { token: "abc" });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://api.test/api/favoritos");
+    expect(init.headers).toEqual({ Authorization: "Bearer abc" });
+  });
+
+  it("serializa los objetos como JSON", async () => {
+    const fetchMock = mockFetch({ body: "ok" });
+
+    await apiRequest("/api/contacto", { method: "POST", body: { nombre: "Ana" } });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers).toEqual({ "Content-Type": "application/json" });
+    expect(init.body).toBe(JSON.stringify({ nombre: "Ana" }));
+  });
+
+  it("lanza un ApiError con el estado y el mensaje del backend", async () => {
+    mockFetch({ status: 409, body: { message: "La oferta ya existe" } });
+
+    const error = await apiRequest("/api/ofertas", { method: "POST" }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(409);
+    expect(error.backendMessage).toBe("La oferta ya existe");
+    expect(error.method).toBe("POST");
+    expect(error.path).toBe("/api/ofertas");
+    expect(error.message).toBe("Error 409: La oferta ya existe");
+  });
+
+  it("lanza un ApiError de red cuando fetch falla", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("Failed to fetch")));
+
+    const error = await apiRequest("/api/ofertas").catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.isNetworkError).toBe(true);
+  });
+
+  it("corta la solicitud cuando supera el tiempo de espera", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn((_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+        })
+      )
+    );
+
+    const error = await apiRequest("/api/ofertas", { timeoutMs: 10 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.status).toBe(0);
+    expect(error.message).toMatch(/tardó demasiado/);
+  });
+});
+
+describe("apiJson", () => {
+  it("valida la respuesta con el esquema", async () => {
+    mockFetch({ body: { id: 1 } });
+
+    const error = await apiJson("/api/ofertas/1", z.object({ id: z.string() })).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error.field).toBe("id");
+    expect(error.message).toMatch(/^Respuesta inválida del servidor \(id\)/);
+  });
+});
+
+describe("withQuery", () => {
+  it("omite los parámetros vacíos", () => {
+    expect(withQuery("/api/ofertas", { q: "cocina", categoriaId: undefined, habilitado: true, page: 0 })).toBe(
+      "/api/ofertas?q=cocina&habilitado=true&page=0"
+    );
+    expect(withQuery("/api/ofertas", { q: "" })).toBe("/api/ofertas");
+  });
+});
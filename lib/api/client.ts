@@ -0,0 +1,206 @@
+import { ZodType, ZodTypeDef } from "zod";
+
+const MOCK_API_PATH = "/mock";
+
+export function isMockApiEnabled(): boolean {
+  return process.env.NEXT_PUBLIC_MOCK_API === "true";
+}
+
+// Con el backend simulado activo las solicitudes van a las rutas de `app/mock`.
+// En el servidor (metadatos, NextAuth) hace falta la URL absoluta de la app.
+const resolveApiUrl = (): string | undefined => {
+  if (!isMockApiEnabled()) {
+    return process.env.NEXT_PUBLIC_API_URL;
+  }
+  if (typeof window !== "undefined") {
+    return MOCK_API_PATH;
+  }
+  return `${process.env.NEXTAUTH_URL ?? "http://localhost:3000"}${MOCK_API_PATH}`;
+};
+
+const DEFAULT_TIMEOUT_MS = 15 * 1000;
+
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+export interface ApiRequestOptions {
+  method?: HttpMethod;
+  token?: string;
+  body?: FormData | string | object;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export type RequestConfig = Pick<ApiRequestOptions, "signal">;
+
+/**
+ * Error lanzado por el cliente cuando el backend responde con un estado no exitoso,
+ * cuando la solicitud excede el tiempo de espera o cuando no hay conexión.
+ * `status` es 0 para los errores que no tienen respuesta HTTP.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly backendMessage: string;
+  readonly method: HttpMethod;
+  readonly path: string;
+
+  constructor(status: number, backendMessage: string, method: HttpMethod, path: string) {
+    super(status > 0 ? `Error ${status}: ${backendMessage}` : backendMessage);
+    this.name = "ApiError";
+    this.status = status;
+    this.backendMessage = backendMessage;
+    this.method = method;
+    this.path = path;
+  }
+
+  get isNotFound() {
+    return this.status === 404;
+  }
+
+  get isUnauthorized() {
+    return this.status === 401 || this.status === 403;
+  }
+
+  get isNetworkError() {
+    return this.status === 0;
+  }
+}
+
+/**
+ * Error lanzado cuando el backend responde correctamente pero el cuerpo no cumple
+ * con el esquema esperado. `field` indica el primer campo que no pudo validarse.
+ */
+export class InvalidResponseError extends Error {
+  readonly path: string;
+  readonly field: string;
+
+  constructor(path: string, field: string, detail: string) {
+    super(`Respuesta inválida del servidor (${field}): ${detail}`);
+    this.name = "InvalidResponseError";
+    this.path = path;
+    this.field = field;
+  }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError;
+}
+
+type QueryValue = string | number | boolean | null | undefined;
+
+/**
+ * Agrega los parámetros definidos a la ruta como query string, omitiendo
+ * los valores vacíos para no enviar filtros que el usuario no eligió.
+ */
+export function withQuery(path: string, params: Record<string, QueryValue>): string {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === "") return;
+    searchParams.append(key, String(value));
+  });
+  const query = searchParams.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+const extractBackendMessage = (text: string): string => {
+  if (!text) return "Sin detalle del servidor";
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === "object") {
+      if (typeof parsed.message === "string") return parsed.message;
+      if (typeof parsed.error === "string") return parsed.error;
+    }
+  } catch {
+    // El backend no siempre responde JSON en los errores
+  }
+  return text;
+};
+
+const buildBody = (body: ApiRequestOptions["body"], headers: Record<string, string>) => {
+  if (body === undefined) return undefined;
+  if (body instanceof FormData || typeof body === "string") return body;
+  headers["Content-Type"] = "application/json";
+  return JSON.stringify(body);
+};
+
+/**
+ * Realiza una solicitud al backend agregando el token `Bearer`, el tiempo de espera
+ * y la señal de cancelación. Devuelve la respuesta sólo si `response.ok`, en cualquier
+ * otro caso lanza un `ApiError`.
+ */
+export async function apiRequest(path: string, options: ApiRequestOptions = {}): Promise<Response> {
+  const { method = "GET", token, body, signal, timeoutMs = DEFAULT_TIMEOUT_MS } = options;
+
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+  const requestBody = buildBody(body, headers);
+
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const abortFromCaller = () => controller.abort();
+  if (signal?.aborted) {
+    controller.abort();
+  } else {
+    signal?.addEventListener("abort", abortFromCaller);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${resolveApiUrl()}${path}`, {
+      method,
+      headers,
+      body: requestBody,
+      signal: controller.signal,
+    });
+  } catch (error) {
+    if (timedOut) {
+      throw new ApiError(0, "El servidor tardó demasiado en responder", method, path);
+    }
+    if (signal?.aborted) {
+      throw error;
+    }
+    throw new ApiError(0, "No se pudo conectar con el servidor", method, path);
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", abortFromCaller);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => "");
+    throw new ApiError(response.status, extractBackendMessage(errorText), method, path);
+  }
+
+  return response;
+}
+
+export function parseResponse<T>(schema: ZodType<T, ZodTypeDef, unknown>, data: unknown, path: string): T {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const field = issue.path.length > 0 ? issue.path.join(".") : "respuesta";
+    throw new InvalidResponseError(path, field, issue.message);
+  }
+  return result.data;
+}
+
+export async function apiJson<T>(
+  path: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: ApiRequestOptions = {}
+): Promise<T> {
+  const response = await apiRequest(path, options);
+  const data: unknown = await response.json().catch(() => {
+    throw new InvalidResponseError(path, "respuesta", "el cuerpo no es JSON válido");
+  });
+  return parseResponse(schema, data, path);
+}
+
+export async function apiText(path: string, options: ApiRequestOptions = {}): Promise<string> {
+  const response = await apiRequest(path, options);
+  return response.text();
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { fetchEmpresaBySlug, fetchMisEmpresas } from "./empresas";
+import { ApiError } from "./client";
+import { mockEmpresas } from "@/lib/mock/fixtures";
+import { mockFetch } from "@/test/utils";
+
+describe("empresas", () => {
+  it("devuelve la empresa validada", async () => {
+    mockFetch({ body: mockEmpresas[0] });
+
+    await expect(fetchEmpresaBySlug("hotel-costanera")).resolves.toEqual(mockEmpresas[0]);
+  });
+
+  it("propaga el 404 como ApiError", async () => {
+    mockFetch({ status: 404, body: "Empresa no encontrada" });
+
+    await expect(fetchEmpresaBySlug("no-existe")).rejects.toBeInstanceOf(ApiError);
+  });
+
+  it("pide las empresas del usuario con su token", async () => {
+    const fetchMock = mockFetch({ body: mockEmpresas });
+
+    await expect(fetchMisEmpresas("token-empleador")).resolves.toEqual(mockEmpresas);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toContain("/api/empresas/mis-empresas");
+    expect(init).toMatchObject({ headers: { Authorization: "Bearer token-empleador" } });
+  });
+});
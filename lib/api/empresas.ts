@@ -0,0 +1,13 @@
+import { z } from "zod";
+import { Empresa, empresaSchema } from "../types/iEmpresa";
+import { apiJson, RequestConfig } from "./client";
+
+export async function fetchEmpresaBySlug(slug: string, config: RequestConfig = {}): Promise<Empresa> {
+  return apiJson(`/api/empresas/${encodeURIComponent(slug)}`, empresaSchema, config);
+}
+
+
+// Empresas con las que el usuario ya publicó, para no volver a cargarlas en cada aviso
+export async function fetchMisEmpresas(token: string, config: RequestConfig = {}): Promise<Empresa[]> {
+  return apiJson("/api/empresas/mis-empresas", z.array(empresaSchema), { ...config, token });
+}
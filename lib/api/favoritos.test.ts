@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { addFavorite, checkIsFavorite, fetchUserFavorites } from "./favoritos";
+import { InvalidResponseError } from "./client";
+import { mockOfertas } from "@/lib/mock/fixtures";
+import { mockFetch } from "@/test/utils";
+
+describe("favoritos", () => {
+  it("agrega un favorito con el token", async () => {
+    const fetchMock = mockFetch({ status: 201 });
+
+    await addFavorite("oferta-1", "token");
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://api.test/api/favoritos/oferta-1");
+    expect(init).toMatchObject({ method: "POST", headers: { Authorization: "Bearer token" } });
+  });
+
+  it("valida la lista de favoritos", async () => {
+    mockFetch({ body: [{ ofertaEmpleo: mockOfertas[0] }] });
+
+    await expect(fetchUserFavorites("token")).resolves.toEqual([{ ofertaEmpleo: mockOfertas[0] }]);
+  });
+
+  it("informa el campo inválido de la respuesta", async () => {
+    mockFetch({ body: [{ oferta: mockOfertas[0] }] });
+
+    await expect(fetchUserFavorites("token")).rejects.toMatchObject({
+      constructor: InvalidResponseError,
+      field: "0.ofertaEmpleo",
+    });
+  });
+
+  it("consulta si una oferta es favorita", async () => {
+    mockFetch({ body: true });
+
+    await expect(checkIsFavorite("oferta-1", "token")).resolves.toBe(true);
+  });
+});
@@ -0,0 +1,280 @@
+import { describe, expect, it } from "vitest";
+import { ApiError, InvalidResponseError } from "./client";
+import { createOferta, deleteOferta, fetchOfertaBySlug, fetchOfertas, fetchOfertasPage, filterOfertas } from "./ofertas";
+import { mockOfertas } from "@/lib/mock/fixtures";
+import { mockFetch } from "@/test/utils";
+
+describe("fetchOfertas", () => {
+  it("envía los filtros como parámetros de búsqueda", async () => {
+    const fetchMock = mockFetch({ body: [] });
+
+    await fetchOfertas({ q: " cocina ", categoriaId: "cat-gastronomia", habilitado: true });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "http://api.test/api/ofertas?q=cocina&categoriaId=cat-gastronomia&habilitado=true"
+    );
+  });
+
+  it("filtra en el cliente si el backend ignora los parámetros", async () => {
+    mockFetch({ body: mockOfertas });
+
+    const ofertas = await fetchOfertas({ categoriaId: "cat-pesca", habilitado: true });
+
+    expect(ofertas.map((oferta) => oferta.id)).toEqual(["oferta-3"]);
+  });
+
+  it("envía y aplica el filtro de salario", async () => {
+    const fetchMock = mockFetch({ body: mockOfertas });
+
+    const ofertas = await fetchOfertas({ salarioDesde: 900000, periodoSalario: "MES" });
+
+    expect(fetchMock.mock.calls[0][0]).toBe("http://api.test/api/ofertas?salarioDesde=900000&periodoSalario=MES");
+    expect(ofertas.map((oferta) => oferta.id)).toEqual(["oferta-1"]);
+  });
+
+  it("rechaza respuestas que no cumplen el esquema", async () => {
+    mockFetch({ body: [{ ...mockOfertas[0], habilitado: "si" }] });
+
+    await expect(fetchOfertas()).rejects.toBeInstanceOf(InvalidResponseError);
+  });
+});
+
+describe("fetchOfertasPage", () => {
+  it("usa la página del backend cuando la soporta", async () => {
+    const fetchMock = mockFetch({ body: { content: mockOfertas.slice(0, 2), last: false } });
+
+    const page = await fetchOfertasPage({ page: 0, size: 2 });
+
+    expect(fetchMock.mock.calls[0][0]).toBe("http://api.test/api/ofertas?page=0&size=2");
+    expect(page.ofertas).toHaveLength(2);
+    expect(page.hasMore).toBe(true);
+  });
+
+  it("respeta el orden de la página del backend", async () => {
+    mockFetch({ body: { content: mockOfertas.slice(0, 2), last: false } });
+
+    const page = await fetchOfertasPage({ page: 0, size: 2 });
+
+    expect(page.ofertas.map((oferta) => oferta.id)).toEqual(["oferta-1", "oferta-2"]);
+  });
+
+  it("pagina en el cliente si el backend devuelve la lista completa", async () => {
+    mockFetch({ body: mockOfertas });
+
+    const page = await fetchOfertasPage({ page: 1, size: 2, habilitado: true, soloPublicadas: true });
+
+    expect(page.ofertas.map((oferta) => oferta.id)).toEqual(["oferta-3", "oferta-5"]);
+    expect(page.hasMore).toBe(false);
+  });
+
+  it("no pide otra página si la lista completa tiene justo el tamaño de página", async () => {
+    mockFetch({ body: mockOfertas.slice(0, 2) });
+
+    const page = await fetchOfertasPage({ page: 0, size: 2 });
+
+    expect(page.ofertas.map((oferta) => oferta.id)).toEqual(["oferta-2", "oferta-1"]);
+    expect(page.hasMore).toBe(false);
+  });
+
+  it("fija las ofertas destacadas al principio del listado", async () => {
+    mockFetch({ body: mockOfertas });
+
+    const page = await fetchOfertasPage({ page: 0, size: 2, habilitado: true });
+
+    expect(page.ofertas.map((oferta) => oferta.id)).toEqual(["oferta-2", "oferta-1"]);
+  });
+});
+
+describe("fetchOfertaBySlug", () => {
+  it("devuelve la oferta validada", async () => {
+    mockFetch({ body: mockOfertas[0] });
+
+    await expect(fetchOfertaBySlug(mockOfertas[0].slug)).resolves.toEqual(mockOfertas[0]);
+  });
+
+  it("propaga el 404 como ApiError", async () => {
+    mockFetch({ status: 404, body: "Oferta no encontrada" });
+
+    const error = await fetchOfertaBySlug("no-existe").catch((e) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.isNotFound).toBe(true);
+  });
+});
+
+describe("createOferta", () => {
+  it("envía la oferta como multipart con el token", async () => {
+    const fetchMock = mockFetch({ status: 201, body: mockOfertas[0] });
+
+    await createOferta(
+      {
+        titulo: "Recepcionista",
+        descripcion: "<p>Hotel</p>",
+        usuarioId: "usuario-empleador",
+        empresaConsultora: "Hotel Costanera",
+        fechaCierre: null,
+        formaPostulacion: "MAIL",
+        emailContacto: "rrhh@hotel.test",
+        linkPostulacion: "https://ignorado.test",
+        categoriaId: "cat-turismo",
+      },
+      "token-empleador"
+    );
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://api.test/api/ofertas");
+    expect(init.method).toBe("POST");
+    expect(init.headers).toEqual({ Authorization: "Bearer token-empleador" });
+    const oferta = JSON.parse((init.body as FormData).get("oferta") as string);
+    expect(oferta).toMatchObject({ emailContacto: "rrhh@hotel.test", linkPostulacion: null, categoria: { id: "cat-turismo" } });
+  });
+
+  it("envía el día de publicación programado o null para publicar apenas se apruebe", async () => {
+    const fetchMock = mockFetch({ status: 201, body: mockOfertas[5] }, { status: 201, body: mockOfertas[0] });
+    const data = {
+      titulo: "Guía de avistaje",
+      descripcion: "<p>Temporada de ballenas</p>",
+      usuarioId: "usuario-empleador",
+      empresaConsultora: "Pirámides Avistajes",
+      fechaCierre: null,
+      formaPostulacion: "MAIL" as const,
+      emailContacto: "avistajes@piramides.test",
+      linkPostulacion: null,
+      categoriaId: "cat-turismo",
+    };
+
+    await createOferta({ ...data, fechaProgramada: "2030-06-12" }, "token-empleador");
+    await createOferta(data, "token-empleador");
+
+    const enviadas = fetchMock.mock.calls.map(([, init]) => JSON.parse((init.body as FormData).get("oferta") as string));
+    expect(enviadas[0].fechaProgramada).toBe("2030-06-12");
+    expect(enviadas[1].fechaProgramada).toBeNull();
+  });
+
+  it("descarta los montos cuando el salario es a convenir", async () => {
+    const fetchMock = mockFetch({ status: 201, body: mockOfertas[1] });
+
+    await createOferta(
+      {
+        titulo: "Cocinero/a",
+        descripcion: "<p>Cantina</p>",
+        usuarioId: "usuario-empleador",
+        empresaConsultora: "Cantina del Puerto",
+        fechaCierre: null,
+        formaPostulacion: "LINK",
+        emailContacto: null,
+        linkPostulacion: "https://example.com",
+        categoriaId: "cat-gastronomia",
+        salarioMin: 700000,
+        periodoSalario: "MES",
+        salarioAConvenir: true,
+      },
+      "token-empleador"
+    );
+
+    const oferta = JSON.parse((fetchMock.mock.calls[0][1].body as FormData).get("oferta") as string);
+    expect(oferta).toMatchObject({ salarioMin: null, salarioMax: null, periodoSalario: null, salarioAConvenir: true });
+  });
+
+  it("envía sólo el contacto de la forma de postulación elegida", async () => {
+    const fetchMock = mockFetch({ status: 201, body: mockOfertas[2] });
+
+    await createOferta(
+      {
+        titulo: "Operario",
+        descripcion: "<p>Planta</p>",
+        usuarioId: "usuario-empleador",
+        empresaConsultora: "Pesquera del Golfo",
+        fechaCierre: null,
+        formaPostulacion: "WHATSAPP",
+        emailContacto: "ignorado@pesquera.test",
+        linkPostulacion: null,
+        telefonoPostulacion: "0280 15 412-3456",
+        horarioPostulacion: "Ignorado",
+        categoriaId: "cat-pesca",
+      },
+      "token-empleador"
+    );
+
+    const oferta = JSON.parse((fetchMock.mock.calls[0][1].body as FormData).get("oferta") as string);
+    expect(oferta).toMatchObject({
+      formaPostulacion: "WHATSAPP",
+      emailContacto: null,
+      telefonoPostulacion: "0280 15 412-3456",
+      horarioPostulacion: null,
+    });
+  });
+
+  it("referencia la empresa elegida o envía los datos para crear una nueva", async () => {
+    const fetchMock = mockFetch({ status: 201, body: mockOfertas[0] }, { status: 201, body: mockOfertas[0] });
+    const base = {
+      titulo: "Recepcionista",
+      descripcion: "<p>Hotel</p>",
+      usuarioId: "usuario-empleador",
+      fechaCierre: null,
+      formaPostulacion: "MAIL" as const,
+      emailContacto: "rrhh@hotel.test",
+      linkPostulacion: null,
+      categoriaId: "cat-turismo",
+    };
+
+    await createOferta({ ...base, empresaConsultora: "Hotel Costanera", empresaId: "empresa-hotel-costanera" }, "token");
+    await createOferta(
+      { ...base, empresaConsultora: "Hostería Patagonia", empresaId: null, empresaSitioWeb: "https://hosteria.test" },
+      "token"
+    );
+
+    const [existente, nueva] = fetchMock.mock.calls.map(
+      ([, init]) => JSON.parse((init.body as FormData).get("oferta") as string)
+    );
+    expect(existente.empresa).toEqual({ id: "empresa-hotel-costanera" });
+    expect(nueva.empresa).toEqual({ nombre: "Hostería Patagonia", descripcion: null, sitioWeb: "https://hosteria.test" });
+  });
+});
+
+describe("deleteOferta", () => {
+  it("ignora el 404 porque la oferta ya no existe", async () => {
+    mockFetch({ status: 404, body: "Oferta no encontrada" });
+
+    await expect(deleteOferta("oferta-1", "token")).resolves.toBeUndefined();
+  });
+
+  it("propaga los demás errores", async () => {
+    mockFetch({ status: 500, body: "Error interno" });
+
+    await expect(deleteOferta("oferta-1", "token")).rejects.toMatchObject({ status: 500 });
+  });
+});
+
+describe("filterOfertas", () => {
+  it("busca sin distinguir mayúsculas ni acentos", () => {
+    const result = filterOfertas(mockOfertas, { q: "BILINGUE" });
+
+    expect(result.map((oferta) => oferta.id)).toEqual(["oferta-1"]);
+  });
+
+  it("filtra por modalidad y jornada", () => {
+    const result = filterOfertas(mockOfertas, { modalidad: "PRESENCIAL", jornada: "FULL_TIME" });
+
+    expect(result.map((oferta) => oferta.id)).toEqual(["oferta-2", "oferta-3"]);
+  });
+
+  it("filtra por localidad tomando Puerto Madryn para los avisos sin localidad", () => {
+    const sinLocalidad = { ...mockOfertas[1], localidad: null };
+
+    expect(filterOfertas([sinLocalidad, mockOfertas[2]], { localidad: "Puerto Madryn" })).toEqual([sinLocalidad]);
+    expect(filterOfertas([sinLocalidad, mockOfertas[2]], { localidad: "Trelew" })).toEqual([mockOfertas[2]]);
+  });
+
+  it("filtra por empresa", () => {
+    const result = filterOfertas(mockOfertas, { empresaId: "empresa-cantina-del-puerto" });
+
+    expect(result.map((oferta) => oferta.id)).toEqual(["oferta-2"]);
+  });
+
+  it("filtra por etiqueta sin distinguir mayúsculas ni espacios", () => {
+    const result = filterOfertas(mockOfertas, { etiqueta: "  Turno   Noche " });
+
+    expect(result.map((oferta) => oferta.id)).toEqual(["oferta-2"]);
+  });
+});
@@ -1,120 +1,220 @@
-import { Oferta } from "../types/iOferta";
-
-const apiUrl = process.env.NEXT_PUBLIC_API_URL;
+import { z } from "zod";
+import { FormaPostulacion, Jornada, Modalidad, Oferta, ofertaSchema, PeriodoSalario } from "../types/iOferta";
+import { matchesSalario } from "../salario";
+import { getLocalidad } from "../localidades";
+import { normalizeEtiqueta } from "../etiquetas";
+import { destacadasPrimero, isDestacada } from "../destacadas";
+import { isCerrada } from "../cierre";
+import { isProgramada } from "../publicacion";
+import { apiJson, apiRequest, isApiError, RequestConfig, withQuery } from "./client";
+
+// Las subidas de logos y CVs pueden tardar bastante en conexiones móviles
+const UPLOAD_TIMEOUT_MS = 60 * 1000;
+
+export const OFERTAS_PAGE_SIZE = 12;
+
+export interface OfertasFilters {
+  q?: string;
+  categoriaId?: string;
+  habilitado?: boolean;
+  salarioDesde?: number;
+  periodoSalario?: PeriodoSalario;
+  modalidad?: Modalidad;
+  jornada?: Jornada;
+  localidad?: string;
+  etiqueta?: string;
+  empresaId?: string;
+  destacada?: boolean;
+  // Excluye las ofertas cuya fecha de cierre ya pasó
+  soloAbiertas?: boolean;
+  // Excluye las ofertas aprobadas cuya fecha de publicación todavía no llegó
+  soloPublicadas?: boolean;
+}
 
+export interface OfertasQuery extends OfertasFilters {
+  page?: number;
+  size?: number;
+}
 
-export async function fetchOfertaById(id: string): Promise<Oferta> {
-  try {
-    const response = await fetch(`${apiUrl}/api/ofertas/${id}`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
+// El backend puede responder con una página (`content`) o con la lista completa
+const ofertasResponseSchema = z.union([
+  z.array(ofertaSchema),
+  z.object({ content: z.array(ofertaSchema), last: z.boolean().optional() }),
+]);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Error ${response.status}: ${errorText}`);
-    }
+export interface OfertasPage {
+  ofertas: Oferta[];
+  hasMore: boolean;
+}
 
-    const data = await response.json();
-    if (typeof data !== "object" || data === null) {
-      throw new Error("La respuesta del servidor no es un objeto válido");
+const toQueryParams = (filters: OfertasFilters) => ({
+  q: filters.q?.trim(),
+  categoriaId: filters.categoriaId,
+  habilitado: filters.habilitado,
+  salarioDesde: filters.salarioDesde,
+  periodoSalario: filters.periodoSalario,
+  modalidad: filters.modalidad,
+  jornada: filters.jornada,
+  localidad: filters.localidad,
+  etiqueta: filters.etiqueta,
+  empresaId: filters.empresaId,
+  destacada: filters.destacada,
+  soloAbiertas: filters.soloAbiertas,
+  soloPublicadas: filters.soloPublicadas,
+});
+
+const normalizeText = (text: string) =>
+  text.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim();
+
+/**
+ * Aplica en el cliente los mismos filtros que se envían al backend. Es idempotente,
+ * así que también sirve de respaldo cuando el backend todavía no soporta algún parámetro.
+ */
+export function filterOfertas(ofertas: Oferta[], filters: OfertasFilters): Oferta[] {
+  const term = filters.q ? normalizeText(filters.q) : "";
+  const etiqueta = filters.etiqueta ? normalizeEtiqueta(filters.etiqueta) : "";
+
+  return ofertas.filter((oferta) => {
+    if (filters.habilitado !== undefined && oferta.habilitado !== filters.habilitado) return false;
+    if (filters.categoriaId && oferta.categoria.id !== filters.categoriaId) return false;
+    if (filters.empresaId && oferta.empresa?.id !== filters.empresaId) return false;
+    if (filters.soloAbiertas && isCerrada(oferta)) return false;
+    if (filters.soloPublicadas && isProgramada(oferta)) return false;
+    if (filters.destacada !== undefined && isDestacada(oferta) !== filters.destacada) return false;
+    if (filters.modalidad && oferta.modalidad !== filters.modalidad) return false;
+    if (filters.jornada && oferta.jornada !== filters.jornada) return false;
+    if (filters.localidad && getLocalidad(oferta) !== filters.localidad) return false;
+    if (etiqueta && !oferta.etiquetas?.some((tag) => normalizeEtiqueta(tag) === etiqueta)) return false;
+    if (!matchesSalario(oferta, filters)) return false;
+    if (
+      term &&
+      !normalizeText(oferta.titulo).includes(term) &&
+      !normalizeText(oferta.descripcion).includes(term) &&
+      !normalizeText(oferta.empresaConsultora).includes(term)
+    ) {
+      return false;
     }
+    return true;
+  });
+}
 
-    return data as Oferta;
-  } catch (error) {
 
-    throw error instanceof Error 
-      ? error 
-      : new Error(`Error desconocido al obtener oferta con ID ${id}`);
-  }
+interface PostulacionData {
+  formaPostulacion: FormaPostulacion;
+  emailContacto: string | null;
+  linkPostulacion: string | null;
+  telefonoPostulacion?: string | null;
+  direccionPostulacion?: string | null;
+  horarioPostulacion?: string | null;
 }
 
+// Sólo viaja el contacto de la forma elegida aunque el formulario conserve los demás
+const toPostulacionPayload = (data: PostulacionData) => {
+  const usaTelefono = data.formaPostulacion === "WHATSAPP" || data.formaPostulacion === "TELEFONO";
+  const esPresencial = data.formaPostulacion === "PRESENCIAL";
+  return {
+    formaPostulacion: data.formaPostulacion,
+    emailContacto: data.formaPostulacion === "MAIL" ? data.emailContacto : null,
+    linkPostulacion: data.formaPostulacion === "LINK" ? data.linkPostulacion : null,
+    telefonoPostulacion: usaTelefono ? data.telefonoPostulacion ?? null : null,
+    direccionPostulacion: esPresencial ? data.direccionPostulacion ?? null : null,
+    horarioPostulacion: esPresencial ? data.horarioPostulacion ?? null : null,
+  };
+};
+
+interface EmpresaData {
+  empresaConsultora: string;
+  empresaId?: string | null;
+  empresaDescripcion?: string | null;
+  empresaSitioWeb?: string | null;
+}
 
-export async function fetchOfertaBySlug(slug: string): Promise<Oferta> {
-  try {
-    const response = await fetch(`${apiUrl}/api/ofertas/detalles/${slug}`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
+// Con una empresa ya cargada el backend reutiliza su perfil y su logo; si no, la crea con estos datos
+const toEmpresaPayload = (data: EmpresaData) => ({
+  empresaConsultora: data.empresaConsultora,
+  empresa: data.empresaId
+    ? { id: data.empresaId }
+    : {
+        nombre: data.empresaConsultora,
+        descripcion: data.empresaDescripcion || null,
+        sitioWeb: data.empresaSitioWeb || null,
       },
-    });
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Error ${response.status}: ${errorText}`);
-    }
-
-    const data = await response.json();
-    if (typeof data !== "object" || data === null) {
-      throw new Error("La respuesta del servidor no es un objeto válido");
-    }
-
-    return data as Oferta;
-  } catch (error) {
+});
 
-    throw error instanceof Error 
-      ? error 
-      : new Error(`Error desconocido al obtener oferta con slug ${slug}`);
-  }
+interface SalarioData {
+  salarioMin?: number | null;
+  salarioMax?: number | null;
+  periodoSalario?: PeriodoSalario | null;
+  salarioAConvenir?: boolean;
 }
 
+// Un salario "a convenir" no lleva montos aunque el formulario los haya tenido cargados
+const toSalarioPayload = (data: SalarioData) => ({
+  salarioMin: data.salarioAConvenir ? null : data.salarioMin ?? null,
+  salarioMax: data.salarioAConvenir ? null : data.salarioMax ?? null,
+  periodoSalario: data.salarioAConvenir ? null : data.periodoSalario ?? null,
+  salarioAConvenir: data.salarioAConvenir ?? false,
+});
 
-export async function fetchOfertas(): Promise<Oferta[]> {
-  try {
-    const response = await fetch(`${apiUrl}/api/ofertas`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Error ${response.status}: ${errorText}`);
-    }
+export async function fetchOfertaById(id: string, config: RequestConfig = {}): Promise<Oferta> {
+  return apiJson(`/api/ofertas/${id}`, ofertaSchema, config);
+}
 
-    const data = await response.json();
-    if (!Array.isArray(data)) {
-      throw new Error("La respuesta del servidor no es un array válido");
-    }
-    return data as Oferta[];
-  } catch (error) {
 
-    throw error instanceof Error 
-      ? error 
-      : new Error("Error desconocido al obtener ofertas");
-  }
+export async function fetchOfertaBySlug(slug: string, config: RequestConfig = {}): Promise<Oferta> {
+  return apiJson(`/api/ofertas/detalles/${slug}`, ofertaSchema, config);
 }
 
 
-export async function fetchUserOfertas(token: string): Promise<Oferta[]> {
-  try {
-    const response = await fetch(`${apiUrl}/api/ofertas/mis-avisos`, {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${token}`,
-      },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Error ${response.status}: ${errorText}`);
-    }
+export async function fetchOfertas(query: OfertasQuery = {}, config: RequestConfig = {}): Promise<Oferta[]> {
+  const { page, size, ...filters } = query;
+  if (page !== undefined) {
+    const { ofertas } = await fetchOfertasPage({ ...filters, page, size }, config);
+    return ofertas;
+  }
 
-    const data = await response.json();
-    if (!Array.isArray(data)) {
-      throw new Error("La respuesta del servidor no es un array válido");
-    }
+  const path = withQuery("/api/ofertas", toQueryParams(filters));
+  const data = await apiJson(path, ofertasResponseSchema, config);
+  return filterOfertas(Array.isArray(data) ? data : data.content, filters);
+}
 
-    return data as Oferta[];
-  } catch (error) {
 
-    throw error instanceof Error 
-      ? error 
-      : new Error("Error desconocido al obtener ofertas del usuario");
+/**
+ * Pide una página de ofertas con las destacadas primero. Con paginación, el backend es
+ * quien pone las destacadas adelante: reordenar cada página por separado las mezclaría
+ * con el resto. Si ignora la paginación y responde la lista completa, se ordena y se
+ * pagina acá para que el listado se comporte igual.
+ */
+export async function fetchOfertasPage(
+  query: OfertasQuery & { page: number },
+  config: RequestConfig = {}
+): Promise<OfertasPage> {
+  const { page, size = OFERTAS_PAGE_SIZE, ...filters } = query;
+  const path = withQuery("/api/ofertas", {
+    ...toQueryParams(filters),
+    page,
+    size,
+  });
+  const data = await apiJson(path, ofertasResponseSchema, config);
+
+  if (!Array.isArray(data)) {
+    return {
+      ofertas: filterOfertas(data.content, filters),
+      hasMore: data.last !== undefined ? !data.last : data.content.length >= size,
+    };
   }
+  // Una lista es siempre la respuesta completa, aunque justo tenga `size` elementos
+  const ofertas = destacadasPrimero(filterOfertas(data, filters));
+  return {
+    ofertas: ofertas.slice(page * size, (page + 1) * size),
+    hasMore: ofertas.length > (page + 1) * size,
+  };
+}
+
+
+export async function fetchUserOfertas(token: string, config: RequestConfig = {}): Promise<Oferta[]> {
+  return apiJson("/api/ofertas/mis-avisos", z.array(ofertaSchema), { ...config, token });
 }
 
 
@@ -124,65 +224,59 @@ export async function updateOferta(
     titulo: string;
     descripcion: string;
     usuarioId: string;
-    empresaConsultora: string;
-    fechaCierre: Date | null;
-    formaPostulacion: string;
-    emailContacto: string | null;
-    linkPostulacion: string | null;
+    // Sin fecha se publica apenas se aprueba
+    fechaProgramada?: string | null;
+    fechaCierre: string | null;
     categoriaId: string;
+    modalidad?: Modalidad | null;
+    jornada?: Jornada | null;
+    localidad?: string | null;
+    barrio?: string | null;
+    direccion?: string | null;
+    etiquetas?: string[];
     logo?: File | null;
     logoUrl?: string | null;
     habilitado: boolean;
-  },
+  } & EmpresaData & PostulacionData & SalarioData,
   token: string
 ): Promise<Oferta> {
-  try {
-    const formData = new FormData();
-
-    const ofertaData = {
-      id: data.id,
-      titulo: data.titulo,
-      descripcion: data.descripcion,
-      usuario: { id: data.usuarioId },
-      empresaConsultora: data.empresaConsultora,
-      fechaPublicacion: new Date().toISOString(),
-      fechaCierre: data.fechaCierre ? new Date(data.fechaCierre).toISOString() : null,
-      formaPostulacion: data.formaPostulacion as "MAIL" | "LINK",
-      emailContacto: data.formaPostulacion === "MAIL" ? data.emailContacto : null,
-      linkPostulacion: data.formaPostulacion === "LINK" ? data.linkPostulacion : null,
-      categoria: { id: data.categoriaId },
-      habilitado: data.habilitado,
-    };
-
-    formData.append("oferta", JSON.stringify(ofertaData));
-
-    if (data.logo) {
-      formData.append("logo", data.logo);
-    }
-
-    formData.append("logoUrl", data.logoUrl ?? "null");
-
-    const response = await fetch(`${apiUrl}/api/ofertas/${data.id}`, {
-      method: "PUT",
-      headers: {
-        "Authorization": `Bearer ${token}`,
-      },
-      body: formData,
-    });
+  const formData = new FormData();
+
+  const ofertaData = {
+    id: data.id,
+    titulo: data.titulo,
+    descripcion: data.descripcion,
+    usuario: { id: data.usuarioId },
+    ...toEmpresaPayload(data),
+    fechaPublicacion: new Date().toISOString(),
+    fechaProgramada: data.fechaProgramada ?? null,
+    fechaCierre: data.fechaCierre ? new Date(data.fechaCierre).toISOString() : null,
+    ...toPostulacionPayload(data),
+    categoria: { id: data.categoriaId },
+    modalidad: data.modalidad ?? null,
+    jornada: data.jornada ?? null,
+    localidad: data.localidad ?? null,
+    barrio: data.barrio || null,
+    direccion: data.direccion || null,
+    etiquetas: data.etiquetas ?? [],
+    ...toSalarioPayload(data),
+    habilitado: data.habilitado,
+  };
+
+  formData.append("oferta", JSON.stringify(ofertaData));
+
+  if (data.logo) {
+    formData.append("logo", data.logo);
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Error ${response.status}: ${errorText}`);
-    }
+  formData.append("logoUrl", data.logoUrl ?? "null");
 
-    const dataResponse = await response.json();
-    return dataResponse as Oferta;
-  } catch (error) {
-
-    throw error instanceof Error 
-      ? error 
-      : new Error(`Error desconocido al actualizar oferta con ID ${data.id}`);
-  }
+  return apiJson(`/api/ofertas/${data.id}`, ofertaSchema, {
+    method: "PUT",
+    token,
+    body: formData,
+    timeoutMs: UPLOAD_TIMEOUT_MS,
+  });
 }
 
 
@@ -191,134 +285,112 @@ export async function createOferta(
     titulo: string;
     descripcion: string;
     usuarioId: string;
-    empresaConsultora: string;
+    // Sin fecha se publica apenas se aprueba
+    fechaProgramada?: string | null;
     fechaCierre: string | null;
-    formaPostulacion: string;
-    emailContacto: string | null;
-    linkPostulacion: string | null;
     categoriaId: string;
+    modalidad?: Modalidad | null;
+    jornada?: Jornada | null;
+    localidad?: string | null;
+    barrio?: string | null;
+    direccion?: string | null;
+    etiquetas?: string[];
     logo?: File | null;
-  },
+  } & EmpresaData & PostulacionData & SalarioData,
   token: string
 ): Promise<Oferta> {
-  try {
-    const formData = new FormData();
-
-    const ofertaData = {
-      titulo: data.titulo,
-      descripcion: data.descripcion,
-      usuario: { id: data.usuarioId },
-      empresaConsultora: data.empresaConsultora,
-      fechaPublicacion: new Date().toISOString(),
-      fechaCierre: data.fechaCierre,
-      formaPostulacion: data.formaPostulacion as "MAIL" | "LINK",
-      emailContacto: data.formaPostulacion === "MAIL" ? data.emailContacto : null,
-      linkPostulacion: data.formaPostulacion === "LINK" ? data.linkPostulacion : null,
-      categoria: { id: data.categoriaId },
-    };
-
-    formData.append("oferta", JSON.stringify(ofertaData));
-
-    if (data.logo) {
-      formData.append("logo", data.logo);
-    }
-
-    const response = await fetch(`${apiUrl}/api/ofertas`, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${token}`,
-      },
-      body: formData,
-    });
+  const formData = new FormData();
+
+  const ofertaData = {
+    titulo: data.titulo,
+    descripcion: data.descripcion,
+    usuario: { id: data.usuarioId },
+    ...toEmpresaPayload(data),
+    fechaPublicacion: new Date().toISOString(),
+    fechaProgramada: data.fechaProgramada ?? null,
+    fechaCierre: data.fechaCierre,
+    ...toPostulacionPayload(data),
+    categoria: { id: data.categoriaId },
+    modalidad: data.modalidad ?? null,
+    jornada: data.jornada ?? null,
+    localidad: data.localidad ?? null,
+    barrio: data.barrio || null,
+    direccion: data.direccion || null,
+    etiquetas: data.etiquetas ?? [],
+    ...toSalarioPayload(data),
+  };
+
+  formData.append("oferta", JSON.stringify(ofertaData));
+
+  if (data.logo) {
+    formData.append("logo", data.logo);
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Error ${response.status}: ${errorText}`);
-    }
+  return apiJson("/api/ofertas", ofertaSchema, {
+    method: "POST",
+    token,
+    body: formData,
+    timeoutMs: UPLOAD_TIMEOUT_MS,
+  });
+}
 
-    const dataResponse = await response.json();
-    return dataResponse as Oferta;
-  } catch (error) {
 
-    throw error instanceof Error 
-      ? error 
-      : new Error("Error desconocido al crear oferta");
-  }
+/**
+ * Extiende la fecha de cierre de una oferta conservando su slug e historial. Según la
+ * política del backend la oferta puede volver a la cola de moderación.
+ */
+export async function renovarOferta(id: string, fechaCierre: string, token: string): Promise<Oferta> {
+  return apiJson(`/api/ofertas/${id}/renovar`, ofertaSchema, { method: "POST", token, body: { fechaCierre } });
 }
 
 
 export async function deleteOferta(id: string, token: string): Promise<void> {
   try {
-    const response = await fetch(`${apiUrl}/api/ofertas/${id}`, {
-      method: "DELETE",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${token}`,
-      },
-    });
-
-    if (!response.ok) {
-
-      if (response.status === 404) {
-        return;
-      }
-      const errorText = await response.text();
-      throw new Error(`Error ${response.status}: ${errorText}`);
-    }
+    await apiRequest(`/api/ofertas/${id}`, { method: "DELETE", token });
   } catch (error) {
-
-    throw error instanceof Error 
-      ? error 
-      : new Error(`Error desconocido al eliminar oferta con ID ${id}`);
+    // Si la oferta ya no existe el resultado es el mismo que haberla eliminado
+    if (isApiError(error) && error.isNotFound) {
+      return;
+    }
+    throw error;
   }
 }
 
 
 export async function enableOfertaAdmin(id: string, token: string): Promise<void> {
-  const url = `${apiUrl}/api/admin/ofertas/habilitar/${id}`;
+  await apiRequest(`/api/admin/ofertas/habilitar/${id}`, { method: "POST", token });
+}
 
-  try {
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${token}`,
-      },
-    });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Error ${response.status}: ${errorText}`);
-    }
-  } catch (error) {
+/** Destaca la oferta hasta la fecha indicada, o sin vencimiento si es null. */
+export async function destacarOfertaAdmin(id: string, destacadaHasta: string | null, token: string): Promise<void> {
+  await apiRequest(`/api/admin/ofertas/destacar/${id}`, { method: "POST", token, body: { destacadaHasta } });
+}
 
-    throw error instanceof Error 
-      ? error 
-      : new Error(`Error desconocido al habilitar oferta con ID ${id}`);
-  }
+
+export async function quitarDestacadaAdmin(id: string, token: string): Promise<void> {
+  await apiRequest(`/api/admin/ofertas/destacar/${id}`, { method: "DELETE", token });
 }
 
 
 export async function deleteOfertaAdmin(id: string, token: string): Promise<void> {
-  const url = `${apiUrl}/api/admin/ofertas/${id}`;
-
-  try {
-    const response = await fetch(url, {
-      method: "DELETE",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${token}`,
-      },
-    });
+  await apiRequest(`/api/admin/ofertas/${id}`, { method: "DELETE", token });
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Error ${response.status}: ${errorText}`);
-    }
-  } catch (error) {
 
-    throw error instanceof Error 
-      ? error 
-      : new Error(`Error desconocido al eliminar oferta con ID ${id} como administrador`);
-  }
-}
\ No newline at end of file
+export async function applyToOferta(
+  ofertaId: string,
+  data: { file: File; applicantEmail: string },
+  token: string
+): Promise<void> {
+  const formData = new FormData();
+  formData.append("file", data.file);
+  formData.append("applicantEmail", data.applicantEmail);
+
+  await apiRequest(`/api/applications/apply/${ofertaId}`, {
+    method: "POST",
+    token,
+    body: formData,
+    timeoutMs: UPLOAD_TIMEOUT_MS,
+  });
+}
@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  combinarBorradores,
+  eliminarBorradorLocal,
+  guardarBorradorLocal,
+  leerBorradoresEliminados,
+  leerBorradoresLocales,
+  olvidarBorradorEliminado,
+  tituloBorrador,
+} from "./borradores";
+import { Borrador } from "./types/iBorrador";
+
+const borrador = (id: string, actualizado: string, titulo = "Mozo/a"): Borrador => ({
+  id,
+  datos: { titulo },
+  actualizado,
+});
+
+describe("borradores locales", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("guarda los borradores por usuario y reemplaza el que ya existía", () => {
+    guardarBorradorLocal("usuario-1", borrador("b-1", "2026-01-01T10:00:00.000Z"));
+    guardarBorradorLocal("usuario-1", borrador("b-2", "2026-01-02T10:00:00.000Z"));
+    guardarBorradorLocal("usuario-1", borrador("b-1", "2026-01-03T10:00:00.000Z", "Cajero/a"));
+
+    expect(leerBorradoresLocales("usuario-1").map((b) => [b.id, b.datos.titulo])).toEqual([
+      ["b-1", "Cajero/a"],
+      ["b-2", "Mozo/a"],
+    ]);
+    expect(leerBorradoresLocales("usuario-2")).toEqual([]);
+  });
+
+  it("elimina un borrador sin tocar los demás", () => {
+    guardarBorradorLocal("usuario-1", borrador("b-1", "2026-01-01T10:00:00.000Z"));
+    guardarBorradorLocal("usuario-1", borrador("b-2", "2026-01-02T10:00:00.000Z"));
+
+    eliminarBorradorLocal("usuario-1", "b-1");
+
+    expect(leerBorradoresLocales("usuario-1").map((b) => b.id)).toEqual(["b-2"]);
+  });
+
+  it("anota la baja hasta que se confirma o el borrador se vuelve a guardar", () => {
+    guardarBorradorLocal("usuario-1", borrador("b-1", "2026-01-01T10:00:00.000Z"));
+
+    eliminarBorradorLocal("usuario-1", "b-1");
+    eliminarBorradorLocal("usuario-1", "b-2");
+    expect(leerBorradoresEliminados("usuario-1")).toEqual(["b-1", "b-2"]);
+
+    olvidarBorradorEliminado("usuario-1", "b-1");
+    guardarBorradorLocal("usuario-1", borrador("b-2", "2026-01-02T10:00:00.000Z"));
+    expect(leerBorradoresEliminados("usuario-1")).toEqual([]);
+  });
+
+  it("ignora lo guardado si no tiene el formato esperado", () => {
+    localStorage.setItem("borradores:usuario-1", "{roto");
+
+    expect(leerBorradoresLocales("usuario-1")).toEqual([]);
+  });
+});
+
+describe("combinarBorradores", () => {
+  it("se queda con la versión más reciente de cada borrador", () => {
+    const local = borrador("b-1", "2026-01-03T10:00:00.000Z", "Local");
+    const remoto = borrador("b-1", "2026-01-02T10:00:00.000Z", "Remoto");
+    const soloRemoto = borrador("b-2", "2026-01-04T10:00:00.000Z");
+
+    expect(combinarBorradores([local], [remoto, soloRemoto])).toEqual([soloRemoto, local]);
+  });
+
+  it("no devuelve los borradores eliminados en el navegador", () => {
+    const eliminado = borrador("b-1", "2026-01-02T10:00:00.000Z");
+    const otro = borrador("b-2", "2026-01-01T10:00:00.000Z");
+
+    expect(combinarBorradores([otro], [eliminado, otro], ["b-1"])).toEqual([otro]);
+  });
+});
+
+describe("tituloBorrador", () => {
+  it("usa un título genérico si todavía no se escribió uno", () => {
+    expect(tituloBorrador(borrador("b-1", "2026-01-01T10:00:00.000Z", "  "))).toBe("Aviso sin título");
+  });
+});
@@ -0,0 +1,92 @@
+import { z } from "zod";
+import { Borrador, borradorSchema } from "./types/iBorrador";
+
+const STORAGE_PREFIX = "borradores:";
+const ELIMINADOS_PREFIX = "borradores-eliminados:";
+
+// Cada usuario tiene sus borradores aparte para que no se mezclen en una computadora compartida
+const storageKey = (usuarioId: string) => `${STORAGE_PREFIX}${usuarioId}`;
+const eliminadosKey = (usuarioId: string) => `${ELIMINADOS_PREFIX}${usuarioId}`;
+
+const getStorage = (): Storage | null => (typeof window === "undefined" ? null : window.localStorage);
+
+export const nuevoBorradorId = () => `borrador-${crypto.randomUUID()}`;
+
+/** Título con el que se muestra el borrador en los listados. */
+export function tituloBorrador(borrador: Borrador): string {
+  const titulo = borrador.datos.titulo;
+  return typeof titulo === "string" && titulo.trim() ? titulo.trim() : "Aviso sin título";
+}
+
+/** Borradores guardados en este navegador, del más reciente al más antiguo. */
+export function leerBorradoresLocales(usuarioId: string): Borrador[] {
+  const raw = getStorage()?.getItem(storageKey(usuarioId));
+  if (!raw) return [];
+  try {
+    const parsed = z.array(borradorSchema).safeParse(JSON.parse(raw));
+    return parsed.success ? ordenarBorradores(parsed.data) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function guardarBorradorLocal(usuarioId: string, borrador: Borrador): void {
+  const otros = leerBorradoresLocales(usuarioId).filter((b) => b.id !== borrador.id);
+  getStorage()?.setItem(storageKey(usuarioId), JSON.stringify([borrador, ...otros]));
+  olvidarBorradorEliminado(usuarioId, borrador.id);
+}
+
+/** Borra el borrador del navegador y anota la baja hasta que el backend la confirme. */
+export function eliminarBorradorLocal(usuarioId: string, id: string): void {
+  guardarLista(storageKey(usuarioId), leerBorradoresLocales(usuarioId).filter((b) => b.id !== id));
+  const eliminados = leerBorradoresEliminados(usuarioId).filter((eliminado) => eliminado !== id);
+  guardarLista(eliminadosKey(usuarioId), [...eliminados, id]);
+}
+
+/** Ids de los borradores eliminados en este navegador que el backend todavía puede tener. */
+export function leerBorradoresEliminados(usuarioId: string): string[] {
+  const raw = getStorage()?.getItem(eliminadosKey(usuarioId));
+  if (!raw) return [];
+  try {
+    const parsed = z.array(z.string()).safeParse(JSON.parse(raw));
+    return parsed.success ? parsed.data : [];
+  } catch {
+    return [];
+  }
+}
+
+export function olvidarBorradorEliminado(usuarioId: string, id: string): void {
+  const eliminados = leerBorradoresEliminados(usuarioId);
+  if (eliminados.includes(id)) {
+    guardarLista(eliminadosKey(usuarioId), eliminados.filter((eliminado) => eliminado !== id));
+  }
+}
+
+/**
+ * Junta los borradores locales con los del backend. Si un borrador está en los dos
+ * lados se queda la versión editada más recientemente; los eliminados en este
+ * navegador no vuelven aunque el backend todavía los tenga.
+ */
+export function combinarBorradores(locales: Borrador[], remotos: Borrador[], eliminados: string[] = []): Borrador[] {
+  const porId = new Map<string, Borrador>();
+  for (const borrador of [...locales, ...remotos]) {
+    if (eliminados.includes(borrador.id)) continue;
+    const existente = porId.get(borrador.id);
+    if (!existente || existente.actualizado < borrador.actualizado) {
+      porId.set(borrador.id, borrador);
+    }
+  }
+  return ordenarBorradores([...porId.values()]);
+}
+
+const guardarLista = (key: string, lista: unknown[]) => {
+  const storage = getStorage();
+  if (lista.length > 0) {
+    storage?.setItem(key, JSON.stringify(lista));
+  } else {
+    storage?.removeItem(key);
+  }
+};
+
+const ordenarBorradores = (borradores: Borrador[]) =>
+  [...borradores].sort((a, b) => b.actualizado.localeCompare(a.actualizado));
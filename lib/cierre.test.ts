@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { cierreProximoLabel, diasParaCierre, fechaInputLocal, isCerrada } from "./cierre";
+
+const now = new Date(2026, 5, 10, 18, 30);
+
+describe("diasParaCierre", () => {
+  it("cuenta días calendario sin importar la hora", () => {
+    expect(diasParaCierre({ fechaCierre: "2026-06-10T00:00:00.000Z" }, now)).toBe(0);
+    expect(diasParaCierre({ fechaCierre: "2026-06-13T00:00:00.000Z" }, now)).toBe(3);
+    expect(diasParaCierre({ fechaCierre: "2026-06-09T00:00:00.000Z" }, now)).toBe(-1);
+    expect(diasParaCierre({ fechaCierre: null }, now)).toBeNull();
+  });
+});
+
+describe("isCerrada", () => {
+  it("sigue abierta el día de cierre y cierra al día siguiente", () => {
+    expect(isCerrada({ fechaCierre: "2026-06-10T00:00:00.000Z" }, now)).toBe(false);
+    expect(isCerrada({ fechaCierre: "2026-06-09T00:00:00.000Z" }, now)).toBe(true);
+    expect(isCerrada({ fechaCierre: null }, now)).toBe(false);
+  });
+});
+
+describe("cierreProximoLabel", () => {
+  it("avisa sólo cuando falta una semana o menos", () => {
+    expect(cierreProximoLabel({ fechaCierre: "2026-06-10T00:00:00.000Z" }, now)).toBe("Cierra hoy");
+    expect(cierreProximoLabel({ fechaCierre: "2026-06-11T00:00:00.000Z" }, now)).toBe("Cierra mañana");
+    expect(cierreProximoLabel({ fechaCierre: "2026-06-13T00:00:00.000Z" }, now)).toBe("Cierra en 3 días");
+    expect(cierreProximoLabel({ fechaCierre: "2026-06-30T00:00:00.000Z" }, now)).toBeNull();
+    expect(cierreProximoLabel({ fechaCierre: "2026-06-09T00:00:00.000Z" }, now)).toBeNull();
+  });
+});
+
+describe("fechaInputLocal", () => {
+  it("usa el día local aunque en UTC ya sea el siguiente", () => {
+    expect(fechaInputLocal(new Date(2026, 5, 10, 23, 30))).toBe("2026-06-10");
+    expect(fechaInputLocal(new Date(2026, 0, 5))).toBe("2026-01-05");
+  });
+});
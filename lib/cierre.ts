@@ -0,0 +1,46 @@
+import { Oferta } from "./types/iOferta";
+
+// A partir de cuántos días restantes la tarjeta avisa que la búsqueda está por cerrar
+export const DIAS_CIERRE_PROXIMO = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type OfertaConCierre = Pick<Oferta, "fechaCierre">;
+
+/**
+ * Días que faltan para una fecha del aviso: 0 el mismo día y negativo si ya pasó. Las fechas
+ * elegidas en el formulario viajan como medianoche UTC, así que se compara el día calendario
+ * y no la hora.
+ */
+export function diasHastaFecha(fecha: string, now: Date = new Date()): number {
+  const [year, month, day] = fecha.slice(0, 10).split("-").map(Number);
+  const objetivo = Date.UTC(year, month - 1, day);
+  const hoy = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((objetivo - hoy) / DAY_MS);
+}
+
+/** Fecha local en formato yyyy-mm-dd, el mismo del input de tipo date. */
+export function fechaInputLocal(date: Date = new Date()): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+/** Días que faltan para la fecha de cierre, o null si la oferta no tiene cierre. */
+export function diasParaCierre(oferta: OfertaConCierre, now: Date = new Date()): number | null {
+  if (!oferta.fechaCierre) return null;
+  return diasHastaFecha(oferta.fechaCierre, now);
+}
+
+/** La oferta sigue recibiendo postulaciones durante todo el día de cierre. */
+export function isCerrada(oferta: OfertaConCierre, now: Date = new Date()): boolean {
+  const dias = diasParaCierre(oferta, now);
+  return dias !== null && dias < 0;
+}
+
+/** Texto de urgencia para las ofertas que cierran pronto, o null si no hace falta avisar. */
+export function cierreProximoLabel(oferta: OfertaConCierre, now: Date = new Date()): string | null {
+  const dias = diasParaCierre(oferta, now);
+  if (dias === null || dias < 0 || dias > DIAS_CIERRE_PROXIMO) return null;
+  if (dias === 0) return "Cierra hoy";
+  if (dias === 1) return "Cierra mañana";
+  return `Cierra en ${dias} días`;
+}
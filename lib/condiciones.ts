@@ -0,0 +1,21 @@
+import { FormaPostulacion, Jornada, Modalidad } from "./types/iOferta";
+
+export const MODALIDAD_LABELS: Record<Modalidad, string> = {
+  PRESENCIAL: "Presencial",
+  REMOTO: "Remoto",
+  HIBRIDO: "Híbrido",
+};
+
+export const JORNADA_LABELS: Record<Jornada, string> = {
+  FULL_TIME: "Full-time",
+  PART_TIME: "Part-time",
+  TEMPORADA: "Temporada",
+};
+
+export const FORMA_POSTULACION_LABELS: Record<FormaPostulacion, string> = {
+  MAIL: "Email",
+  LINK: "Link externo",
+  WHATSAPP: "WhatsApp",
+  TELEFONO: "Teléfono",
+  PRESENCIAL: "Presencial con CV",
+};
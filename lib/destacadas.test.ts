@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { destacadasPrimero, isDestacada, ofertasParaPortada } from "./destacadas";
+import { mockOfertas } from "./mock/fixtures";
+
+const now = new Date("2026-06-01T12:00:00.000Z");
+
+describe("isDestacada", () => {
+  it("vence al pasar la fecha indicada", () => {
+    expect(isDestacada({ destacada: true, destacadaHasta: "2026-06-10T00:00:00.000Z" }, now)).toBe(true);
+    expect(isDestacada({ destacada: true, destacadaHasta: "2026-05-31T00:00:00.000Z" }, now)).toBe(false);
+  });
+
+  it("sin vencimiento sigue destacada y sin marca nunca lo está", () => {
+    expect(isDestacada({ destacada: true, destacadaHasta: null }, now)).toBe(true);
+    expect(isDestacada({ destacada: false, destacadaHasta: "2026-06-10T00:00:00.000Z" }, now)).toBe(false);
+  });
+});
+
+describe("destacadasPrimero", () => {
+  it("mueve las destacadas arriba manteniendo el orden del resto", () => {
+    const ofertas = [
+      { id: "a", destacada: false },
+      { id: "b", destacada: true },
+      { id: "c", destacada: false },
+      { id: "d", destacada: true },
+    ];
+
+    expect(destacadasPrimero(ofertas, now).map((oferta) => oferta.id)).toEqual(["b", "d", "a", "c"]);
+  });
+});
+
+describe("ofertasParaPortada", () => {
+  const sinDestacar = mockOfertas.map((oferta) => ({ ...oferta, destacada: false }));
+
+  it("muestra sólo las destacadas vigentes", () => {
+    const ofertas = sinDestacar.map((oferta) => (oferta.id === "oferta-1" ? { ...oferta, destacada: true } : oferta));
+
+    expect(ofertasParaPortada(ofertas, now)).toEqual({ ofertas: [ofertas[0]], sonDestacadas: true });
+  });
+
+  it("usa las habilitadas más recientes cuando no hay destacadas", () => {
+    const { ofertas, sonDestacadas } = ofertasParaPortada(sinDestacar, now);
+
+    expect(sonDestacadas).toBe(false);
+    expect(ofertas.map((oferta) => oferta.id)).toEqual(["oferta-3", "oferta-2", "oferta-1"]);
+  });
+});
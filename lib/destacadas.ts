@@ -0,0 +1,40 @@
+import { Oferta } from "./types/iOferta";
+import { isCerrada } from "./cierre";
+import { isProgramada } from "./publicacion";
+
+// Lugares de la sección de la portada
+export const MAX_DESTACADAS_PORTADA = 3;
+
+type OfertaDestacable = Pick<Oferta, "destacada" | "destacadaHasta">;
+
+/** Una oferta cuenta como destacada mientras tenga la marca y no haya pasado su vencimiento. */
+export function isDestacada(oferta: OfertaDestacable, now: Date = new Date()): boolean {
+  if (!oferta.destacada) return false;
+  return !oferta.destacadaHasta || new Date(oferta.destacadaHasta) > now;
+}
+
+/** Pone las destacadas primero sin alterar el orden dentro de cada grupo. */
+export function destacadasPrimero<T extends OfertaDestacable>(ofertas: T[], now: Date = new Date()): T[] {
+  return [...ofertas].sort((a, b) => Number(isDestacada(b, now)) - Number(isDestacada(a, now)));
+}
+
+const masRecientes = (ofertas: Oferta[]) =>
+  [...ofertas].sort((a, b) => new Date(b.fechaPublicacion).getTime() - new Date(a.fechaPublicacion).getTime());
+
+/**
+ * Elige las ofertas de la portada entre las que siguen abiertas: las destacadas vigentes
+ * o, si no hay ninguna, las publicadas más recientemente.
+ */
+export function ofertasParaPortada(
+  ofertas: Oferta[],
+  now: Date = new Date()
+): { ofertas: Oferta[]; sonDestacadas: boolean } {
+  const habilitadas = ofertas.filter(
+    (oferta) => oferta.habilitado && !isCerrada(oferta, now) && !isProgramada(oferta, now)
+  );
+  const destacadas = habilitadas.filter((oferta) => isDestacada(oferta, now));
+  if (destacadas.length > 0) {
+    return { ofertas: masRecientes(destacadas).slice(0, MAX_DESTACADAS_PORTADA), sonDestacadas: true };
+  }
+  return { ofertas: masRecientes(habilitadas).slice(0, MAX_DESTACADAS_PORTADA), sonDestacadas: false };
+}
@@ -0,0 +1,14 @@
+const DEFAULT_LOGO_URL = "https://example.com/default-logo.png";
+
+/** Devuelve la URL absoluta del logo, o null si no hay uno propio para mostrar. */
+export const getLogoUrl = (logoUrl: string | null | undefined): string | null => {
+  if (!logoUrl || logoUrl === DEFAULT_LOGO_URL) {
+    return null;
+  }
+
+  // Los blob: son logos elegidos en el formulario que todavía no se subieron
+  const isAbsoluteUrl = /^(https?|blob):/.test(logoUrl);
+  return isAbsoluteUrl ? logoUrl : `${process.env.NEXT_PUBLIC_API_URL}${logoUrl}`;
+};
+
+export const empresaHref = (slug: string) => `/empresas/${encodeURIComponent(slug)}`;
@@ -0,0 +1,19 @@
+export const MAX_ETIQUETAS = 8;
+export const MAX_ETIQUETA_LENGTH = 30;
+
+// Se sugieren en el formulario para que los avisos parecidos usen las mismas etiquetas
+export const ETIQUETAS_SUGERIDAS = [
+  "inglés",
+  "carnet de conducir",
+  "sin experiencia",
+  "primer empleo",
+  "fines de semana",
+  "turno noche",
+  "movilidad propia",
+];
+
+export const normalizeEtiqueta = (etiqueta: string) => etiqueta.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const etiquetaHref = (etiqueta: string) => `/etiquetas/${encodeURIComponent(etiqueta)}`;
+
+export const avisosPorEtiquetaHref = (etiqueta: string) => `/avisos?${new URLSearchParams({ etiqueta })}`;
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { useBorradores, useEliminarBorrador, useGuardarBorrador } from "./useBorradores";
+import { guardarBorradorLocal, leerBorradoresEliminados, leerBorradoresLocales } from "../borradores";
+import { createWrapper, mockFetch } from "@/test/utils";
+
+const borrador = (id: string, actualizado: string) => ({ id, datos: { titulo: id }, actualizado });
+
+describe("useBorradores", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("junta los borradores del navegador con los del servidor", async () => {
+    guardarBorradorLocal("usuario-1", borrador("local", "2026-01-01T10:00:00.000Z"));
+    mockFetch({ body: [borrador("remoto", "2026-01-02T10:00:00.000Z")] });
+
+    const { result } = renderHook(() => useBorradores("usuario-1", "token"), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data?.map((b) => b.id)).toEqual(["remoto", "local"]);
+  });
+
+  it("sigue con los borradores locales si el servidor no responde", async () => {
+    guardarBorradorLocal("usuario-1", borrador("local", "2026-01-01T10:00:00.000Z"));
+    mockFetch({ status: 500, body: "Error interno" });
+
+    const { result } = renderHook(() => useBorradores("usuario-1", "token"), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data?.map((b) => b.id)).toEqual(["local"]);
+  });
+});
+
+describe("useGuardarBorrador", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it("guarda en el navegador y envía una copia al servidor", async () => {
+    const fetchMock = mockFetch({ body: borrador("b-1", "2026-01-01T10:00:00.000Z") });
+
+    const { result } = renderHook(() => useGuardarBorrador(), { wrapper: createWrapper() });
+
+    await act(() =>
+      result.current.mutateAsync({ usuarioId: "usuario-1", borrador: borrador("b-1", "2026-01-01T10:00:00.000Z"), token: "token" })
+    );
+
+    expect(leerBorradoresLocales("usuario-1").map((b) => b.id)).toEqual(["b-1"]);
+    expect(fetchMock.mock.calls[0][0]).toBe("http://api.test/api/borradores/b-1");
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ method: "PUT", headers: { Authorization: "Bearer token" } });
+  });
+
+  it("el autoguardado no envía nada al servidor", async () => {
+    const fetchMock = mockFetch();
+
+    const { result } = renderHook(() => useGuardarBorrador(), { wrapper: createWrapper() });
+
+    await act(() =>
+      result.current.mutateAsync({
+        usuarioId: "usuario-1",
+        borrador: borrador("b-1", "2026-01-01T10:00:00.000Z"),
+        token: "token",
+        soloLocal: true,
+      })
+    );
+
+    expect(leerBorradoresLocales("usuario-1").map((b) => b.id)).toEqual(["b-1"]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("useEliminarBorrador", () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  const eliminarConError = async (wrapper: ReturnType<typeof createWrapper>) => {
+    const { result } = renderHook(() => useEliminarBorrador(), { wrapper });
+    await act(() => result.current.mutateAsync({ usuarioId: "usuario-1", id: "b-1", token: "token" }));
+  };
+
+  it("no vuelve a mostrar un borrador cuya baja no llegó al servidor", async () => {
+    guardarBorradorLocal("usuario-1", borrador("b-1", "2026-01-01T10:00:00.000Z"));
+    mockFetch(
+      { status: 500, body: "Error interno" },
+      { status: 500, body: "Error interno" },
+      { body: [borrador("b-1", "2026-01-01T10:00:00.000Z")] }
+    );
+    const wrapper = createWrapper();
+    await eliminarConError(wrapper);
+
+    const { result } = renderHook(() => useBorradores("usuario-1", "token"), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toEqual([]);
+    expect(leerBorradoresEliminados("usuario-1")).toEqual(["b-1"]);
+  });
+
+  it("reintenta la baja pendiente al volver a cargar los borradores", async () => {
+    guardarBorradorLocal("usuario-1", borrador("b-1", "2026-01-01T10:00:00.000Z"));
+    const fetchMock = mockFetch({ status: 500, body: "Error interno" }, { status: 204 }, { body: [] });
+    const wrapper = createWrapper();
+    await eliminarConError(wrapper);
+
+    const { result } = renderHook(() => useBorradores("usuario-1", "token"), { wrapper });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(fetchMock.mock.calls[1]).toEqual(["http://api.test/api/borradores/b-1", expect.objectContaining({ method: "DELETE" })]);
+    expect(leerBorradoresEliminados("usuario-1")).toEqual([]);
+  });
+});
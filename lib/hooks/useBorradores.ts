@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { deleteBorrador, fetchBorradores, saveBorrador } from "../api/borradores";
+import { isApiError } from "../api/client";
+import {
+  combinarBorradores,
+  eliminarBorradorLocal,
+  guardarBorradorLocal,
+  leerBorradoresEliminados,
+  leerBorradoresLocales,
+  olvidarBorradorEliminado,
+} from "../borradores";
+import { Borrador } from "../types/iBorrador";
+
+// El backend es una copia de respaldo: si falla, el borrador local alcanza para no perder nada
+const ignorarErrorRemoto = (accion: string) => (error: unknown) => {
+  console.warn(`No se pudo ${accion} el borrador en el servidor:`, error);
+};
+
+// La baja queda anotada hasta que el backend la confirma; si ya no lo tenía, también cuenta
+const eliminarRemoto = async (usuarioId: string, id: string, token: string) => {
+  try {
+    await deleteBorrador(id, token);
+  } catch (error) {
+    if (!isApiError(error) || !error.isNotFound) {
+      ignorarErrorRemoto("eliminar")(error);
+      return;
+    }
+  }
+  olvidarBorradorEliminado(usuarioId, id);
+};
+
+export function useBorradores(usuarioId: string, token: string) {
+  return useQuery({
+    queryKey: ["borradores", usuarioId],
+    queryFn: async ({ signal }) => {
+      // Se reintentan las bajas que fallaron antes para que no reaparezcan
+      if (token) {
+        await Promise.all(leerBorradoresEliminados(usuarioId).map((id) => eliminarRemoto(usuarioId, id, token)));
+      }
+      const remotos = token
+        ? await fetchBorradores(token, { signal }).catch((error) => {
+            ignorarErrorRemoto("leer")(error);
+            return [];
+          })
+        : [];
+      return combinarBorradores(leerBorradoresLocales(usuarioId), remotos, leerBorradoresEliminados(usuarioId));
+    },
+    enabled: !!usuarioId,
+    staleTime: 60 * 1000,
+  });
+}
+
+interface GuardarBorradorVariables {
+  usuarioId: string;
+  borrador: Borrador;
+  token: string;
+  // El autoguardado escribe sólo en el navegador; la copia del servidor se manda aparte
+  soloLocal?: boolean;
+}
+
+export function useGuardarBorrador() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ usuarioId, borrador, token, soloLocal = false }: GuardarBorradorVariables) => {
+      guardarBorradorLocal(usuarioId, borrador);
+      if (token && !soloLocal) await saveBorrador(borrador, token).catch(ignorarErrorRemoto("guardar"));
+    },
+    // Se actualiza la caché a mano para no volver a pedir la lista en cada autoguardado
+    onSuccess: (_, { usuarioId, borrador }) => {
+      queryClient.setQueryData<Borrador[]>(["borradores", usuarioId], (prev) =>
+        combinarBorradores([borrador], (prev ?? []).filter((b) => b.id !== borrador.id))
+      );
+    },
+  });
+}
+
+export function useEliminarBorrador() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ usuarioId, id, token }: { usuarioId: string; id: string; token: string }) => {
+      eliminarBorradorLocal(usuarioId, id);
+      if (token) await eliminarRemoto(usuarioId, id, token);
+    },
+    onSuccess: (_, { usuarioId, id }) => {
+      queryClient.setQueryData<Borrador[]>(["borradores", usuarioId], (prev) => prev?.filter((b) => b.id !== id));
+    },
+  });
+}
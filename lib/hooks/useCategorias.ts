@@ -5,7 +5,7 @@ import { createCategoriaImage, deleteCategoriaImage, fetchaAllCategoriasImages,
 export function useCategorias() {
   return useQuery<Categoria[], Error>({
     queryKey: ["categories"],
-    queryFn: fetchCategorias,
+    queryFn: ({ signal }) => fetchCategorias({ signal }),
     staleTime: 5 * 60 * 1000,
     retry: 2
   });
@@ -14,7 +14,7 @@ export function useCategorias() {
 export function useCategoriaImages(id: string, token: string) {
   return useQuery<string[], Error>({
     queryKey: ["categories", id],
-    queryFn: () => fetchaAllCategoriasImages(id, token),
+    queryFn: ({ signal }) => fetchaAllCategoriasImages(id, token, { signal }),
     staleTime: 5 * 60 * 1000,
     retry: 2
   });
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { Empresa } from "../types/iEmpresa";
+import { fetchEmpresaBySlug, fetchMisEmpresas } from "../api/empresas";
+
+export function useEmpresaBySlug(slug: string) {
+  return useQuery<Empresa, Error>({
+    queryKey: ["empresa", slug],
+    queryFn: ({ signal }) => fetchEmpresaBySlug(slug, { signal }),
+    enabled: !!slug,
+    staleTime: 5 * 60 * 1000,
+    retry: 2
+  });
+}
+
+export function useMisEmpresas(token: string) {
+  return useQuery<Empresa[], Error>({
+    queryKey: ["misEmpresas", token],
+    queryFn: ({ signal }) => fetchMisEmpresas(token, { signal }),
+    enabled: !!token,
+    staleTime: 5 * 60 * 1000,
+    retry: 2
+  });
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { useAddFavorito, useIsFavoritos, useUserFavoritos } from "./useFavoritos";
+import { mockOfertas } from "@/lib/mock/fixtures";
+import { createTestQueryClient, createWrapper, mockFetch } from "@/test/utils";
+
+describe("useUserFavoritos", () => {
+  it("no consulta sin token", () => {
+    const fetchMock = mockFetch();
+
+    const { result } = renderHook(() => useUserFavoritos(""), { wrapper: createWrapper() });
+
+    expect(result.current.fetchStatus).toBe("idle");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("carga los favoritos del usuario", async () => {
+    mockFetch({ body: [{ ofertaEmpleo: mockOfertas[0] }] });
+
+    const { result } = renderHook(() => useUserFavoritos("token"), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data?.[0].ofertaEmpleo.id).toBe("oferta-1");
+  });
+});
+
+describe("useIsFavoritos", () => {
+  it("indica si la oferta está guardada", async () => {
+    mockFetch({ body: false });
+
+    const { result } = renderHook(() => useIsFavoritos("oferta-1", "token"), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toBe(false);
+  });
+});
+
+describe("useAddFavorito", () => {
+  it("invalida la lista y el estado de la oferta", async () => {
+    mockFetch({ status: 201 });
+    const queryClient = createTestQueryClient();
+    const invalidateSpy = vi.spyOn(queryClient, "invalidateQueries");
+
+    const { result } = renderHook(() => useAddFavorito(), { wrapper: createWrapper(queryClient) });
+
+    await act(() => result.current.mutateAsync({ ofertaId: "oferta-1", token: "token" }));
+
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ["favorites", "token"] });
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ["isFavorite", "oferta-1", "token"] });
+  });
+});
@@ -32,7 +32,7 @@ export function useRemoveFavorito() {
 export function useUserFavoritos(token: string) {
   return useQuery({
     queryKey: ["favorites", token],
-    queryFn: () => fetchUserFavorites(token),
+    queryFn: ({ signal }) => fetchUserFavorites(token, { signal }),
     enabled: !!token,
     staleTime: 2 * 60 * 1000,
     retry: 2
@@ -42,7 +42,7 @@ export function useUserFavoritos(token: string) {
 export function useIsFavoritos(ofertaId: string, token: string) {
   return useQuery({
     queryKey: ["isFavorite", ofertaId, token],
-    queryFn: () => checkIsFavorite(ofertaId, token),
+    queryFn: ({ signal }) => checkIsFavorite(ofertaId, token, { signal }),
     enabled: !!token && !!ofertaId,
     staleTime: 2 * 60 * 1000,
     retry: 1
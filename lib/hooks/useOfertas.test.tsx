@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { useDeleteOferta, useInfiniteOfertas, useOfertas, useOfertasByCategory } from "./useOfertas";
+import { mockOfertas } from "@/lib/mock/fixtures";
+import { createTestQueryClient, createWrapper, mockFetch } from "@/test/utils";
+
+describe("useOfertas", () => {
+  it("carga todas las ofertas", async () => {
+    mockFetch({ body: mockOfertas });
+
+    const { result } = renderHook(() => useOfertas(), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toHaveLength(mockOfertas.length);
+  });
+
+  it("no pide nada si está deshabilitado", () => {
+    const fetchMock = mockFetch();
+
+    renderHook(() => useOfertas({ enabled: false }), { wrapper: createWrapper() });
+
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("useOfertasByCategory", () => {
+  // oferta-1 cierra el 31/12/2026: se fija la fecha para que siga abierta
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-06-15T12:00:00.000Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("pide al backend sólo las ofertas habilitadas, abiertas y ya publicadas de la categoría", async () => {
+    const fetchMock = mockFetch({ body: mockOfertas });
+
+    const { result } = renderHook(() => useOfertasByCategory("cat-turismo"), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(fetchMock.mock.calls[0][0]).toBe("http://api.test/api/ofertas?categoriaId=cat-turismo&habilitado=true&soloAbiertas=true&soloPublicadas=true");
+    expect(result.current.data?.map((oferta) => oferta.id)).toEqual(["oferta-1"]);
+  });
+});
+
+describe("useInfiniteOfertas", () => {
+  it("carga la página siguiente mientras el backend indique que hay más", async () => {
+    const fetchMock = mockFetch(
+      { body: { content: mockOfertas.slice(0, 2), last: false } },
+      { body: { content: mockOfertas.slice(2, 3), last: true } }
+    );
+
+    const { result } = renderHook(() => useInfiniteOfertas({ habilitado: true }, 2), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.hasNextPage).toBe(true);
+
+    await act(() => result.current.fetchNextPage());
+
+    await waitFor(() => expect(result.current.data?.pages).toHaveLength(2));
+    expect(fetchMock.mock.calls[1][0]).toBe("http://api.test/api/ofertas?habilitado=true&page=1&size=2");
+    expect(result.current.data?.pages.flatMap((page) => page.ofertas)).toHaveLength(3);
+    expect(result.current.hasNextPage).toBe(false);
+  });
+});
+
+describe("useDeleteOferta", () => {
+  it("invalida los listados al eliminar", async () => {
+    mockFetch({ status: 204 });
+    const queryClient = createTestQueryClient();
+    const invalidateSpy = vi.spyOn(queryClient, "invalidateQueries");
+
+    const { result } = renderHook(() => useDeleteOferta(), { wrapper: createWrapper(queryClient) });
+
+    await act(() => result.current.mutateAsync({ id: "oferta-1", token: "token" }));
+
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ["jobPosts"] });
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ["userJobPosts"] });
+  });
+});
@@ -1,21 +1,27 @@
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { keepPreviousData, useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Oferta } from "../types/iOferta";
 import { 
   createOferta,
   deleteOferta, 
   deleteOfertaAdmin,
+  destacarOfertaAdmin,
   enableOfertaAdmin,
   fetchOfertaById, 
   fetchOfertaBySlug,
   fetchOfertas, 
+  fetchOfertasPage,
   fetchUserOfertas,
+  OFERTAS_PAGE_SIZE,
+  OfertasFilters,
+  quitarDestacadaAdmin,
+  renovarOferta,
   updateOferta 
 } from "../api/ofertas";
 
 export function useOfertaById(id: string) {
     return useQuery<Oferta, Error>({
         queryKey: ["jobPost", id],
-        queryFn: () => fetchOfertaById(id),
+        queryFn: ({ signal }) => fetchOfertaById(id, { signal }),
         enabled: !!id,
         staleTime: 30 * 1000, 
         refetchOnMount: true,
@@ -28,7 +34,7 @@ export function useOfertaById(id: string) {
 export function useOfertaBySlug(slug: string) {
     return useQuery<Oferta, Error>({
         queryKey: ["jobPostBySlug", slug],
-        queryFn: () => fetchOfertaBySlug(slug),
+        queryFn: ({ signal }) => fetchOfertaBySlug(slug, { signal }),
         enabled: !!slug,
         staleTime: 30 * 1000,
         refetchOnMount: true,
@@ -38,15 +44,28 @@ export function useOfertaBySlug(slug: string) {
     });
 }
 
-export function useOfertas() {
+export function useOfertas({ enabled = true }: { enabled?: boolean } = {}) {
     return useQuery<Oferta[], Error>({
         queryKey: ["jobPosts"],
-        queryFn: fetchOfertas,
+        queryFn: ({ signal }) => fetchOfertas({}, { signal }),
+        enabled,
         staleTime: 30 * 1000, 
         refetchOnMount: true,
         refetchOnWindowFocus: true,
         refetchOnReconnect: true,
-        refetchInterval: 60 * 1000, 
+        retry: 2
+    });
+}
+
+export function useInfiniteOfertas(filters: OfertasFilters = {}, size: number = OFERTAS_PAGE_SIZE) {
+    return useInfiniteQuery({
+        queryKey: ["jobPosts", "paged", filters, size],
+        queryFn: ({ pageParam, signal }) => fetchOfertasPage({ ...filters, page: pageParam, size }, { signal }),
+        initialPageParam: 0,
+        getNextPageParam: (lastPage, allPages) => (lastPage.hasMore ? allPages.length : undefined),
+        placeholderData: keepPreviousData,
+        staleTime: 30 * 1000,
+        refetchOnWindowFocus: false,
         retry: 2
     });
 }
@@ -54,7 +73,7 @@ export function useOfertas() {
 export function useUserOfertas(token: string) {
     return useQuery<Oferta[], Error>({
         queryKey: ["userJobPosts", token],
-        queryFn: () => fetchUserOfertas(token),
+        queryFn: ({ signal }) => fetchUserOfertas(token, { signal }),
         enabled: !!token,
         staleTime: 30 * 1000, 
         refetchOnMount: true,
@@ -68,10 +87,7 @@ export function useUserOfertas(token: string) {
 export function useOfertasByCategory(categoryId: string) {
   return useQuery({
     queryKey: ["jobPostsByCategory", categoryId],
-    queryFn: async () => {
-            const allJobs = await fetchOfertas();
-            return allJobs.filter((job) => job.categoria.id === categoryId);
-        },
+    queryFn: ({ signal }) => fetchOfertas({ categoriaId: categoryId, habilitado: true, soloAbiertas: true, soloPublicadas: true }, { signal }),
         staleTime: 30 * 1000, 
         refetchOnMount: true,
         refetchOnWindowFocus: true,
@@ -81,6 +97,32 @@ export function useOfertasByCategory(categoryId: string) {
     });
 }
 
+export function useOfertasByEtiqueta(etiqueta: string) {
+    return useQuery({
+        queryKey: ["jobPostsByEtiqueta", etiqueta],
+        queryFn: ({ signal }) => fetchOfertas({ etiqueta, habilitado: true, soloAbiertas: true, soloPublicadas: true }, { signal }),
+        enabled: !!etiqueta,
+        staleTime: 30 * 1000,
+        refetchOnMount: true,
+        refetchOnWindowFocus: true,
+        refetchOnReconnect: true,
+        retry: 2
+    });
+}
+
+export function useOfertasByEmpresa(empresaId: string | undefined) {
+    return useQuery({
+        queryKey: ["jobPostsByEmpresa", empresaId],
+        queryFn: ({ signal }) => fetchOfertas({ empresaId, habilitado: true, soloAbiertas: true, soloPublicadas: true }, { signal }),
+        enabled: !!empresaId,
+        staleTime: 30 * 1000,
+        refetchOnMount: true,
+        refetchOnWindowFocus: true,
+        refetchOnReconnect: true,
+        retry: 2
+    });
+}
+
 export function useDeleteOferta() {
     const queryClient = useQueryClient();
 
@@ -100,24 +142,12 @@ export function useCreateOferta() {
     const queryClient = useQueryClient();
 
     return useMutation({
-        mutationFn: ({ data, token }: { 
-            data: {
-                titulo: string;
-                descripcion: string;
-                usuarioId: string;
-                empresaConsultora: string;
-                fechaCierre: string | null;
-                formaPostulacion: string;
-                emailContacto: string | null;
-                linkPostulacion: string | null;
-                categoriaId: string;
-                logo?: File | null;
-            }, 
-            token: string 
-        }) => createOferta(data, token),
+        mutationFn: ({ data, token }: { data: Parameters<typeof createOferta>[0]; token: string }) =>
+            createOferta(data, token),
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ["jobPosts"] });
             queryClient.invalidateQueries({ queryKey: ["userJobPosts"] });
+            queryClient.invalidateQueries({ queryKey: ["misEmpresas"] });
         },
         onError: (err) => {
             console.error("Error al crear la oferta:", err);
@@ -129,24 +159,8 @@ export function useUpdateOferta() {
     const queryClient = useQueryClient();
 
     return useMutation({
-        mutationFn: ({ data, token }: { 
-            data: {
-                id: string;
-                titulo: string;
-                descripcion: string;
-                usuarioId: string;
-                empresaConsultora: string;
-                fechaCierre: Date | null;
-                formaPostulacion: string;
-                emailContacto: string | null;
-                linkPostulacion: string | null;
-                categoriaId: string;
-                logo?: File | null;
-                logoUrl?: string | null;
-                habilitado: boolean;
-            }, 
-            token: string 
-        }) => updateOferta(data, token),
+        mutationFn: ({ data, token }: { data: Parameters<typeof updateOferta>[0]; token: string }) =>
+            updateOferta(data, token),
         onSuccess: (data) => {
             queryClient.invalidateQueries({ queryKey: ["jobPosts"] });
             queryClient.invalidateQueries({ queryKey: ["userJobPosts"] });
@@ -160,6 +174,23 @@ export function useUpdateOferta() {
     });
 }
 
+export function useRenovarOferta() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ id, fechaCierre, token }: { id: string; fechaCierre: string; token: string }) =>
+            renovarOferta(id, fechaCierre, token),
+        onSuccess: (_, { id }) => {
+            queryClient.invalidateQueries({ queryKey: ["jobPosts"] });
+            queryClient.invalidateQueries({ queryKey: ["userJobPosts"] });
+            queryClient.invalidateQueries({ queryKey: ["jobPost", id] });
+        },
+        onError: (err) => {
+            console.error("Error al renovar la oferta:", err);
+        },
+    });
+}
+
 export function useDeleteOfertaAdmin() {
     const queryClient = useQueryClient();
 
@@ -191,3 +222,33 @@ export function useEnableOfertaAdmin() {
     });
 }
 
+export function useDestacarOfertaAdmin() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ id, destacadaHasta, token }: { id: string; destacadaHasta: string | null; token: string }) =>
+            destacarOfertaAdmin(id, destacadaHasta, token),
+        onSuccess: (_, { id }) => {
+            queryClient.invalidateQueries({ queryKey: ["jobPosts"] });
+            queryClient.invalidateQueries({ queryKey: ["jobPost", id] });
+        },
+        onError: (err) => {
+            console.error("Error al destacar la oferta:", err);
+        },
+    });
+}
+
+export function useQuitarDestacadaAdmin() {
+    const queryClient = useQueryClient();
+
+    return useMutation({
+        mutationFn: ({ id, token }: { id: string; token: string }) => quitarDestacadaAdmin(id, token),
+        onSuccess: (_, { id }) => {
+            queryClient.invalidateQueries({ queryKey: ["jobPosts"] });
+            queryClient.invalidateQueries({ queryKey: ["jobPost", id] });
+        },
+        onError: (err) => {
+            console.error("Error al quitar el destacado de la oferta:", err);
+        },
+    });
+}
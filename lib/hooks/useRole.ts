@@ -0,0 +1,14 @@
+import { useSession } from "next-auth/react";
+import { requireRole } from "../roles";
+
+export function useRole() {
+  const { data: session, status } = useSession();
+  const usuario = session?.user;
+
+  return {
+    rol: usuario?.rol,
+    status,
+    isModerator: requireRole(usuario, "MODERATOR"),
+    isAdmin: requireRole(usuario, "ADMIN"),
+  };
+}
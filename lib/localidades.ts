@@ -0,0 +1,15 @@
+import { Oferta } from "./types/iOferta";
+
+export const LOCALIDADES = ["Puerto Madryn", "Trelew", "Rawson", "Puerto Pirámides", "Gaiman"] as const;
+
+export const DEFAULT_LOCALIDAD = "Puerto Madryn";
+
+type OfertaUbicacion = Pick<Oferta, "localidad" | "barrio" | "direccion">;
+
+// Los avisos cargados antes de que existiera el campo son todos de Puerto Madryn
+export const getLocalidad = (oferta: OfertaUbicacion): string => oferta.localidad || DEFAULT_LOCALIDAD;
+
+/** Localidad con el barrio si lo hay, por ejemplo "Centro, Trelew". */
+export function formatUbicacion(oferta: OfertaUbicacion): string {
+  return oferta.barrio ? `${oferta.barrio}, ${getLocalidad(oferta)}` : getLocalidad(oferta);
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { loginUrl, readPendingAction } from "./loginRedirect";
+
+describe("loginUrl", () => {
+  it("vuelve a la página actual después del login", () => {
+    expect(loginUrl("/mis-avisos")).toBe("/login?callbackUrl=%2Fmis-avisos");
+  });
+
+  it("conserva la acción pendiente en el callbackUrl", () => {
+    const url = new URL(loginUrl("/detalles-empleo/aviso-1", "postular"), "http://localhost");
+
+    expect(url.pathname).toBe("/login");
+    expect(url.searchParams.get("callbackUrl")).toBe("/detalles-empleo/aviso-1?accion=postular");
+  });
+
+  it("no vuelve al login desde el propio login", () => {
+    expect(loginUrl("/login/verificar")).toBe("/login?callbackUrl=%2F");
+  });
+});
+
+describe("readPendingAction", () => {
+  it("lee sólo acciones conocidas", () => {
+    expect(readPendingAction(new URLSearchParams("accion=guardar"))).toBe("guardar");
+    expect(readPendingAction(new URLSearchParams("accion=borrar"))).toBeNull();
+    expect(readPendingAction(new URLSearchParams())).toBeNull();
+  });
+});
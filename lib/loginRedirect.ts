@@ -0,0 +1,21 @@
+import { ReadonlyURLSearchParams } from "next/navigation";
+
+/** Acciones que quedan pendientes mientras el usuario inicia sesión y se retoman al volver. */
+export type PendingAction = "postular" | "guardar";
+
+const PENDING_ACTION_PARAM = "accion";
+
+/**
+ * Arma la URL del login que, después de autenticarse, devuelve al usuario a `path`
+ * indicando la acción que había empezado.
+ */
+export function loginUrl(path: string, accion?: PendingAction): string {
+  const destino = path.startsWith("/login") ? "/" : path;
+  const callbackUrl = accion ? `${destino}?${PENDING_ACTION_PARAM}=${accion}` : destino;
+  return `/login?${new URLSearchParams({ callbackUrl })}`;
+}
+
+export function readPendingAction(searchParams: URLSearchParams | ReadonlyURLSearchParams): PendingAction | null {
+  const accion = searchParams.get(PENDING_ACTION_PARAM);
+  return accion === "postular" || accion === "guardar" ? accion : null;
+}
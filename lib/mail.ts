@@ -0,0 +1,25 @@
+import nodemailer from "nodemailer";
+
+const DEFAULT_FROM = "Madryn Empleos <no-responder@madrynempleos.com>";
+
+// EMAIL_SERVER es una URL SMTP; en desarrollo puede apuntar a un receptor local como smtp://localhost:1025
+const createTransport = () => {
+  if (!process.env.EMAIL_SERVER) {
+    throw new Error("Falta configurar EMAIL_SERVER para enviar correos");
+  }
+  return nodemailer.createTransport(process.env.EMAIL_SERVER);
+};
+
+export async function sendLoginLinkEmail(to: string, url: string): Promise<void> {
+  await createTransport().sendMail({
+    to,
+    from: process.env.EMAIL_FROM ?? DEFAULT_FROM,
+    subject: "Tu enlace para iniciar sesión en Madryn Empleos",
+    text: `Usa este enlace para iniciar sesión en Madryn Empleos:\n\n${url}\n\nEl enlace vence en unos minutos y sirve una sola vez. Si no lo pediste, ignora este correo.`,
+    html: `
+      <p>Usa este enlace para iniciar sesión en Madryn Empleos:</p>
+      <p><a href="${url}">Iniciar sesión</a></p>
+      <p>El enlace vence en unos minutos y sirve una sola vez. Si no lo pediste, ignora este correo.</p>
+    `,
+  });
+}
@@ -0,0 +1,63 @@
+import { Borrador } from "../types/iBorrador";
+import { Categoria } from "../types/iCategoria";
+import { Empresa } from "../types/iEmpresa";
+import { Mensaje } from "../types/iMensaje";
+import { Oferta } from "../types/iOferta";
+import { mockCategorias, mockEmpresas, mockOfertas, MockUsuario, mockUsuarios } from "./fixtures";
+
+export interface MockPostulacion {
+  ofertaId: string;
+  applicantEmail: string;
+  fileName: string;
+}
+
+export interface MockDb {
+  usuarios: MockUsuario[];
+  categorias: Categoria[];
+  empresas: Empresa[];
+  ofertas: Oferta[];
+  favoritos: Record<string, string[]>;
+  borradores: Record<string, Borrador[]>;
+  postulaciones: MockPostulacion[];
+  mensajes: Mensaje[];
+  // Tokens de inicio de sesión por email pendientes de usar, con el id del usuario
+  loginTokens: Record<string, string>;
+}
+
+const createMockDb = (): MockDb => ({
+  usuarios: structuredClone(mockUsuarios),
+  categorias: structuredClone(mockCategorias),
+  empresas: structuredClone(mockEmpresas),
+  ofertas: structuredClone(mockOfertas),
+  favoritos: {},
+  borradores: {},
+  postulaciones: [],
+  mensajes: [],
+  loginTokens: {},
+});
+
+// Se guarda en globalThis para que el recargado en caliente de Next no pierda los datos
+const globalForMock = globalThis as unknown as { mockDb?: MockDb };
+
+export function getMockDb(): MockDb {
+  if (!globalForMock.mockDb) {
+    globalForMock.mockDb = createMockDb();
+  }
+  return globalForMock.mockDb;
+}
+
+export function resetMockDb(): MockDb {
+  globalForMock.mockDb = createMockDb();
+  return globalForMock.mockDb;
+}
+
+export function createMockToken(usuarioId: string): string {
+  return `mock-token:${usuarioId}`;
+}
+
+export function findUsuarioByToken(authorization: string | null): MockUsuario | null {
+  const token = authorization?.replace(/^Bearer\s+/i, "");
+  if (!token?.startsWith("mock-token:")) return null;
+  const usuarioId = token.slice("mock-token:".length);
+  return getMockDb().usuarios.find((usuario) => usuario.id === usuarioId) ?? null;
+}
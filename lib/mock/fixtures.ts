@@ -0,0 +1,201 @@
+import { Categoria } from "../types/iCategoria";
+import { Empresa } from "../types/iEmpresa";
+import { Oferta } from "../types/iOferta";
+import { Rol } from "../types/iRol";
+
+export interface MockUsuario {
+  id: string;
+  email: string;
+  nombre: string;
+  rol: Rol;
+}
+
+export const mockUsuarios: MockUsuario[] = [
+  { id: "usuario-admin", email: "admin@madrynempleos.test", nombre: "Admin Madryn", rol: "ADMIN" },
+  { id: "usuario-moderador", email: "moderador@madrynempleos.test", nombre: "Moderadora Madryn", rol: "MODERATOR" },
+  { id: "usuario-empleador", email: "empleador@madrynempleos.test", nombre: "Hotel Costanera", rol: "USER" },
+  { id: "usuario-candidato", email: "candidato@madrynempleos.test", nombre: "Candidata Prueba", rol: "USER" },
+];
+
+export const mockCategorias: Categoria[] = [
+  { id: "cat-turismo", nombre: "Turismo", imagenes: ["https://images.unsplash.com/photo-1544551763-46a013bb70d5"] },
+  { id: "cat-gastronomia", nombre: "Gastronomía", imagenes: [] },
+  { id: "cat-pesca", nombre: "Pesca", imagenes: [] },
+  { id: "cat-atencion", nombre: "Atención al Cliente", imagenes: [] },
+  { id: "cat-otros", nombre: "Otros", imagenes: [] },
+];
+
+export const mockEmpresas: Empresa[] = [
+  {
+    id: "empresa-hotel-costanera",
+    nombre: "Hotel Costanera",
+    slug: "hotel-costanera",
+    logoUrl: null,
+    descripcion: "Hotel frente al golfo con más de veinte años recibiendo turistas en Puerto Madryn.",
+    sitioWeb: "https://hotelcostanera.test",
+  },
+  {
+    id: "empresa-cantina-del-puerto",
+    nombre: "Cantina del Puerto",
+    slug: "cantina-del-puerto",
+    logoUrl: null,
+    descripcion: null,
+    sitioWeb: null,
+  },
+  {
+    id: "empresa-pesquera-del-golfo",
+    nombre: "Pesquera del Golfo",
+    slug: "pesquera-del-golfo",
+    logoUrl: null,
+    descripcion: "Planta procesadora de langostino y merluza.",
+    sitioWeb: null,
+  },
+];
+
+const empresaResumen = ({ id, nombre, slug, logoUrl }: Empresa) => ({ id, nombre, slug, logoUrl });
+
+const empleador = { email: "empleador@madrynempleos.test" };
+
+export const mockOfertas: Oferta[] = [
+  {
+    id: "oferta-1",
+    titulo: "Recepcionista bilingüe",
+    descripcion: "<p>Hotel frente al mar busca recepcionista con inglés avanzado para la temporada de ballenas.</p>",
+    usuarioPublicador: empleador,
+    empresaConsultora: "Hotel Costanera",
+    empresa: empresaResumen(mockEmpresas[0]),
+    fechaPublicacion: "2026-05-02T12:00:00.000Z",
+    fechaCierre: "2026-12-31T00:00:00.000Z",
+    formaPostulacion: "MAIL",
+    contactoPostulacion: "rrhh@hotelcostanera.test",
+    categoria: { id: "cat-turismo", nombre: "Turismo" },
+    logoUrl: null,
+    habilitado: true,
+    slug: "recepcionista-bilingue-oferta-1",
+    etiquetas: ["inglés", "fines de semana"],
+    localidad: "Puerto Madryn",
+    barrio: "Costanera",
+    direccion: "Av. Julio A. Roca 1200",
+    modalidad: "PRESENCIAL",
+    jornada: "TEMPORADA",
+    salarioMin: 850000,
+    salarioMax: 1000000,
+    periodoSalario: "MES",
+    salarioAConvenir: false,
+  },
+  {
+    id: "oferta-2",
+    titulo: "Cocinero/a de línea",
+    descripcion: "<p>Restaurante en la costanera incorpora cocinero/a con experiencia en pescados y mariscos.</p>",
+    usuarioPublicador: empleador,
+    empresaConsultora: "Cantina del Puerto",
+    empresa: empresaResumen(mockEmpresas[1]),
+    fechaPublicacion: "2026-05-10T12:00:00.000Z",
+    fechaCierre: null,
+    formaPostulacion: "LINK",
+    contactoPostulacion: "https://example.com/postulaciones/cocinero",
+    categoria: { id: "cat-gastronomia", nombre: "Gastronomía" },
+    logoUrl: null,
+    habilitado: true,
+    slug: "cocinero-a-de-linea-oferta-2",
+    destacada: true,
+    destacadaHasta: "2030-12-31T00:00:00.000Z",
+    etiquetas: ["turno noche"],
+    localidad: "Puerto Madryn",
+    barrio: null,
+    direccion: null,
+    modalidad: "PRESENCIAL",
+    jornada: "FULL_TIME",
+    salarioMin: null,
+    salarioMax: null,
+    periodoSalario: null,
+    salarioAConvenir: true,
+  },
+  {
+    id: "oferta-3",
+    titulo: "Operario de planta pesquera",
+    descripcion: "<p>Planta procesadora busca operarios para turno mañana. No se requiere experiencia.</p>",
+    usuarioPublicador: empleador,
+    empresaConsultora: "Pesquera del Golfo",
+    empresa: empresaResumen(mockEmpresas[2]),
+    fechaPublicacion: "2026-05-15T12:00:00.000Z",
+    fechaCierre: null,
+    formaPostulacion: "WHATSAPP",
+    contactoPostulacion: "0280 15 412-3456",
+    categoria: { id: "cat-pesca", nombre: "Pesca" },
+    logoUrl: null,
+    habilitado: true,
+    slug: "operario-de-planta-pesquera-oferta-3",
+    etiquetas: ["sin experiencia", "primer empleo"],
+    localidad: "Trelew",
+    barrio: "Parque Industrial",
+    direccion: null,
+    modalidad: "PRESENCIAL",
+    jornada: "FULL_TIME",
+    salarioMin: 4500,
+    salarioMax: null,
+    periodoSalario: "HORA",
+    salarioAConvenir: false,
+  },
+  {
+    id: "oferta-4",
+    titulo: "Vendedor/a de mostrador",
+    descripcion: "<p>Comercio del centro busca vendedor/a part-time. Aviso pendiente de aprobación.</p>",
+    usuarioPublicador: empleador,
+    empresaConsultora: "Librería Central",
+    fechaPublicacion: "2026-05-20T12:00:00.000Z",
+    fechaCierre: null,
+    formaPostulacion: "PRESENCIAL",
+    contactoPostulacion: "25 de Mayo 150, Rawson",
+    horarioPostulacion: "Lunes a viernes de 9 a 13",
+    categoria: { id: "cat-atencion", nombre: "Atención al Cliente" },
+    logoUrl: null,
+    habilitado: false,
+    slug: "vendedor-a-de-mostrador-oferta-4",
+    etiquetas: [],
+    localidad: "Rawson",
+    barrio: null,
+    direccion: null,
+    modalidad: "PRESENCIAL",
+    jornada: "PART_TIME",
+  },
+  {
+    id: "oferta-5",
+    titulo: "Guardavidas de temporada",
+    descripcion: "<p>Balneario municipal buscó guardavidas con libreta habilitante. Búsqueda cerrada.</p>",
+    usuarioPublicador: empleador,
+    empresaConsultora: "Balneario Municipal",
+    fechaPublicacion: "2025-11-01T12:00:00.000Z",
+    fechaCierre: "2025-12-15T00:00:00.000Z",
+    formaPostulacion: "MAIL",
+    contactoPostulacion: "balneario@madryn.test",
+    categoria: { id: "cat-turismo", nombre: "Turismo" },
+    logoUrl: null,
+    habilitado: true,
+    slug: "guardavidas-de-temporada-oferta-5",
+    etiquetas: [],
+    localidad: "Puerto Madryn",
+    modalidad: "PRESENCIAL",
+    jornada: "TEMPORADA",
+  },
+  {
+    id: "oferta-6",
+    titulo: "Guía de avistaje de ballenas",
+    descripcion: "<p>Operadora de Puerto Pirámides busca guías con inglés fluido para la temporada de ballenas.</p>",
+    usuarioPublicador: empleador,
+    empresaConsultora: "Pirámides Avistajes",
+    fechaPublicacion: "2026-05-20T12:00:00.000Z",
+    fechaProgramada: "2030-06-12",
+    fechaCierre: null,
+    formaPostulacion: "MAIL",
+    contactoPostulacion: "avistajes@piramides.test",
+    categoria: { id: "cat-turismo", nombre: "Turismo" },
+    logoUrl: null,
+    habilitado: true,
+    slug: "guia-de-avistaje-de-ballenas-oferta-6",
+    etiquetas: ["ballenas"],
+    localidad: "Puerto Pirámides",
+    modalidad: "PRESENCIAL",
+    jornada: "TEMPORADA",
+  },
+];
@@ -0,0 +1,566 @@
+import { jornadaSchema, modalidadSchema, Oferta, periodoSalarioSchema } from "../types/iOferta";
+import { filterOfertas } from "../api/ofertas";
+import { destacadasPrimero } from "../destacadas";
+import { isCerrada } from "../cierre";
+import { requireRole } from "../roles";
+import { Rol } from "../types/iRol";
+import { Empresa } from "../types/iEmpresa";
+import { MockUsuario } from "./fixtures";
+import { createMockToken, findUsuarioByToken, getMockDb, resetMockDb } from "./db";
+
+type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+interface MockContext {
+  request: Request;
+  params: Record<string, string>;
+  url: URL;
+  usuario: MockUsuario | null;
+}
+
+interface MockRoute {
+  method: HttpMethod;
+  pattern: string;
+  auth?: Rol;
+  handle: (context: MockContext) => Response | Promise<Response>;
+}
+
+// Duración en segundos informada al iniciar sesión y al renovar el token
+const MOCK_TOKEN_EXPIRES_IN = 60 * 60;
+
+const json = (data: unknown, status = 200) => Response.json(data, { status });
+const text = (data: string, status = 200) => new Response(data, { status });
+
+const slugify = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+
+const findOferta = (id: string) => getMockDb().ofertas.find((oferta) => oferta.id === id);
+
+type EmpresaPayload = { id: string } | { nombre: string; descripcion: string | null; sitioWeb: string | null };
+
+// Reutiliza la empresa elegida o la que ya tenga el mismo nombre antes de crear una nueva
+const resolveEmpresa = (payload: EmpresaPayload): Empresa | null => {
+  const db = getMockDb();
+  if ("id" in payload) {
+    return db.empresas.find((empresa) => empresa.id === payload.id) ?? null;
+  }
+  const slug = slugify(payload.nombre);
+  let empresa = db.empresas.find((e) => e.slug === slug);
+  if (!empresa) {
+    empresa = { id: `empresa-${slug}`, nombre: payload.nombre, slug, logoUrl: null, descripcion: payload.descripcion, sitioWeb: payload.sitioWeb };
+    db.empresas.push(empresa);
+  }
+  return empresa;
+};
+
+interface OfertaPayload {
+  titulo: string;
+  descripcion: string;
+  empresaConsultora: string;
+  empresa: EmpresaPayload;
+  fechaProgramada: string | null;
+  fechaCierre: string | null;
+  formaPostulacion: Oferta["formaPostulacion"];
+  emailContacto: string | null;
+  linkPostulacion: string | null;
+  telefonoPostulacion: string | null;
+  direccionPostulacion: string | null;
+  horarioPostulacion: string | null;
+  categoria: { id: string };
+  salarioMin: number | null;
+  salarioMax: number | null;
+  periodoSalario: Oferta["periodoSalario"];
+  salarioAConvenir: boolean;
+  modalidad: Oferta["modalidad"];
+  jornada: Oferta["jornada"];
+  localidad: string | null;
+  barrio: string | null;
+  direccion: string | null;
+  etiquetas: string[];
+}
+
+const readOfertaPayload = async (request: Request): Promise<OfertaPayload> => {
+  const formData = await request.formData();
+  return JSON.parse(String(formData.get("oferta")));
+};
+
+const toOferta = (payload: OfertaPayload, base: Pick<Oferta, "id" | "slug" | "usuarioPublicador" | "fechaPublicacion" | "habilitado" | "logoUrl">): Oferta => {
+  const categoria = getMockDb().categorias.find((cat) => cat.id === payload.categoria.id);
+  const empresa = resolveEmpresa(payload.empresa);
+  return {
+    ...base,
+    logoUrl: base.logoUrl ?? empresa?.logoUrl,
+    titulo: payload.titulo,
+    descripcion: payload.descripcion,
+    empresaConsultora: empresa?.nombre ?? payload.empresaConsultora,
+    empresa: empresa && { id: empresa.id, nombre: empresa.nombre, slug: empresa.slug, logoUrl: empresa.logoUrl },
+    fechaProgramada: payload.fechaProgramada,
+    fechaCierre: payload.fechaCierre,
+    formaPostulacion: payload.formaPostulacion,
+    contactoPostulacion: {
+      MAIL: payload.emailContacto,
+      LINK: payload.linkPostulacion,
+      WHATSAPP: payload.telefonoPostulacion,
+      TELEFONO: payload.telefonoPostulacion,
+      PRESENCIAL: payload.direccionPostulacion,
+    }[payload.formaPostulacion],
+    horarioPostulacion: payload.horarioPostulacion,
+    categoria: { id: payload.categoria.id, nombre: categoria?.nombre ?? "Otros" },
+    salarioMin: payload.salarioMin,
+    salarioMax: payload.salarioMax,
+    periodoSalario: payload.periodoSalario,
+    salarioAConvenir: payload.salarioAConvenir,
+    modalidad: payload.modalidad,
+    jornada: payload.jornada,
+    localidad: payload.localidad,
+    barrio: payload.barrio,
+    direccion: payload.direccion,
+    etiquetas: payload.etiquetas,
+  };
+};
+
+const routes: MockRoute[] = [
+  {
+    // Sólo lo usan las pruebas e2e para arrancar cada escenario con los datos de ejemplo
+    method: "POST",
+    pattern: "/__reset",
+    handle: () => {
+      resetMockDb();
+      return new Response(null, { status: 204 });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/google",
+    handle: async ({ request }) => {
+      const body = await request.json();
+      const db = getMockDb();
+      let usuario = db.usuarios.find((u) => u.email === body.email);
+      if (!usuario) {
+        usuario = { id: `usuario-${db.usuarios.length + 1}`, email: body.email, nombre: body.name, rol: "USER" };
+        db.usuarios.push(usuario);
+      }
+      return json({
+        token: createMockToken(usuario.id),
+        usuarioId: usuario.id,
+        rol: usuario.rol,
+        expiresIn: MOCK_TOKEN_EXPIRES_IN,
+      });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/email/link",
+    handle: async ({ request }) => {
+      const body = await request.json();
+      const db = getMockDb();
+      let usuario = db.usuarios.find((u) => u.email === body.email);
+      if (!usuario) {
+        usuario = { id: `usuario-${db.usuarios.length + 1}`, email: body.email, nombre: body.email, rol: "USER" };
+        db.usuarios.push(usuario);
+      }
+      const loginToken = crypto.randomUUID();
+      db.loginTokens[loginToken] = usuario.id;
+      return json({ loginToken });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/email/verify",
+    handle: async ({ request }) => {
+      const { loginToken } = await request.json();
+      const db = getMockDb();
+      const usuario = db.usuarios.find((u) => u.id === db.loginTokens[loginToken]);
+      if (!usuario) return text("Enlace inválido o vencido", 401);
+      delete db.loginTokens[loginToken];
+      return json({
+        token: createMockToken(usuario.id),
+        usuarioId: usuario.id,
+        rol: usuario.rol,
+        email: usuario.email,
+        nombre: usuario.nombre,
+        expiresIn: MOCK_TOKEN_EXPIRES_IN,
+      });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/auth/refresh",
+    auth: "USER",
+    handle: ({ usuario }) => json({ token: createMockToken(usuario!.id), expiresIn: MOCK_TOKEN_EXPIRES_IN }),
+  },
+  {
+    method: "GET",
+    pattern: "/api/ofertas",
+    handle: ({ url }) => {
+      const params = url.searchParams;
+      const habilitado = params.get("habilitado");
+      const ofertas = destacadasPrimero(filterOfertas(getMockDb().ofertas, {
+        q: params.get("q") ?? undefined,
+        categoriaId: params.get("categoriaId") ?? undefined,
+        habilitado: habilitado === null ? undefined : habilitado === "true",
+        salarioDesde: params.has("salarioDesde") ? Number(params.get("salarioDesde")) : undefined,
+        periodoSalario: periodoSalarioSchema.optional().catch(undefined).parse(params.get("periodoSalario") ?? undefined),
+        modalidad: modalidadSchema.optional().catch(undefined).parse(params.get("modalidad") ?? undefined),
+        jornada: jornadaSchema.optional().catch(undefined).parse(params.get("jornada") ?? undefined),
+        localidad: params.get("localidad") ?? undefined,
+        etiqueta: params.get("etiqueta") ?? undefined,
+        empresaId: params.get("empresaId") ?? undefined,
+        destacada: params.has("destacada") ? params.get("destacada") === "true" : undefined,
+        soloAbiertas: params.get("soloAbiertas") === "true",
+        soloPublicadas: params.get("soloPublicadas") === "true",
+      }));
+      if (!params.has("page")) {
+        return json(ofertas);
+      }
+      const page = Number(params.get("page"));
+      const size = Number(params.get("size") ?? 12);
+      const content = ofertas.slice(page * size, (page + 1) * size);
+      return json({
+        content,
+        number: page,
+        size,
+        totalElements: ofertas.length,
+        last: (page + 1) * size >= ofertas.length,
+      });
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/ofertas/mis-avisos",
+    auth: "USER",
+    handle: ({ usuario }) =>
+      json(getMockDb().ofertas.filter((oferta) => oferta.usuarioPublicador.email === usuario?.email)),
+  },
+  {
+    method: "GET",
+    pattern: "/api/ofertas/detalles/:slug",
+    handle: ({ params }) => {
+      const oferta = getMockDb().ofertas.find((o) => o.slug === params.slug);
+      return oferta ? json(oferta) : text("Oferta no encontrada", 404);
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/ofertas/:id",
+    handle: ({ params }) => {
+      const oferta = findOferta(params.id);
+      return oferta ? json(oferta) : text("Oferta no encontrada", 404);
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/ofertas",
+    auth: "USER",
+    handle: async ({ request, usuario }) => {
+      const payload = await readOfertaPayload(request);
+      const db = getMockDb();
+      const id = `oferta-${Date.now()}`;
+      const oferta = toOferta(payload, {
+        id,
+        slug: `${slugify(payload.titulo)}-${id}`,
+        usuarioPublicador: { email: usuario!.email },
+        fechaPublicacion: new Date().toISOString(),
+        habilitado: false,
+        logoUrl: null,
+      });
+      db.ofertas.push(oferta);
+      return json(oferta, 201);
+    },
+  },
+  {
+    method: "PUT",
+    pattern: "/api/ofertas/:id",
+    auth: "USER",
+    handle: async ({ request, params, usuario }) => {
+      const existing = findOferta(params.id);
+      if (!existing) return text("Oferta no encontrada", 404);
+      if (existing.usuarioPublicador.email !== usuario?.email) return text("No autorizado", 403);
+      const payload = await readOfertaPayload(request);
+      const updated = toOferta(payload, existing);
+      const db = getMockDb();
+      db.ofertas = db.ofertas.map((oferta) => (oferta.id === updated.id ? updated : oferta));
+      return json(updated);
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/ofertas/:id/renovar",
+    auth: "USER",
+    handle: async ({ request, params, usuario }) => {
+      const oferta = findOferta(params.id);
+      if (!oferta) return text("Oferta no encontrada", 404);
+      if (oferta.usuarioPublicador.email !== usuario?.email) return text("No autorizado", 403);
+      const { fechaCierre } = await request.json();
+      oferta.fechaCierre = fechaCierre;
+      // Los avisos renovados vuelven a pasar por moderación antes de publicarse
+      oferta.habilitado = false;
+      return json(oferta);
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/ofertas/:id",
+    auth: "USER",
+    handle: ({ params, usuario }) => {
+      const existing = findOferta(params.id);
+      if (!existing) return text("Oferta no encontrada", 404);
+      if (existing.usuarioPublicador.email !== usuario?.email) return text("No autorizado", 403);
+      const db = getMockDb();
+      db.ofertas = db.ofertas.filter((oferta) => oferta.id !== params.id);
+      return new Response(null, { status: 204 });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/admin/ofertas/habilitar/:id",
+    auth: "MODERATOR",
+    handle: ({ params }) => {
+      const oferta = findOferta(params.id);
+      if (!oferta) return text("Oferta no encontrada", 404);
+      oferta.habilitado = true;
+      return new Response(null, { status: 204 });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/admin/ofertas/destacar/:id",
+    auth: "ADMIN",
+    handle: async ({ request, params }) => {
+      const oferta = findOferta(params.id);
+      if (!oferta) return text("Oferta no encontrada", 404);
+      const { destacadaHasta } = await request.json();
+      oferta.destacada = true;
+      oferta.destacadaHasta = destacadaHasta;
+      return new Response(null, { status: 204 });
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/admin/ofertas/destacar/:id",
+    auth: "ADMIN",
+    handle: ({ params }) => {
+      const oferta = findOferta(params.id);
+      if (!oferta) return text("Oferta no encontrada", 404);
+      oferta.destacada = false;
+      oferta.destacadaHasta = null;
+      return new Response(null, { status: 204 });
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/admin/ofertas/:id",
+    auth: "MODERATOR",
+    handle: ({ params }) => {
+      const db = getMockDb();
+      if (!findOferta(params.id)) return text("Oferta no encontrada", 404);
+      db.ofertas = db.ofertas.filter((oferta) => oferta.id !== params.id);
+      return new Response(null, { status: 204 });
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/favoritos",
+    auth: "USER",
+    handle: ({ usuario }) => {
+      const ids = getMockDb().favoritos[usuario!.id] ?? [];
+      return json(ids.map(findOferta).filter(Boolean).map((oferta) => ({ ofertaEmpleo: oferta })));
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/favoritos/:id/is-favorite",
+    auth: "USER",
+    handle: ({ params, usuario }) => json((getMockDb().favoritos[usuario!.id] ?? []).includes(params.id)),
+  },
+  {
+    method: "POST",
+    pattern: "/api/favoritos/:id",
+    auth: "USER",
+    handle: ({ params, usuario }) => {
+      if (!findOferta(params.id)) return text("Oferta no encontrada", 404);
+      const db = getMockDb();
+      const ids = db.favoritos[usuario!.id] ?? [];
+      db.favoritos[usuario!.id] = ids.includes(params.id) ? ids : [...ids, params.id];
+      return new Response(null, { status: 201 });
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/favoritos/:id",
+    auth: "USER",
+    handle: ({ params, usuario }) => {
+      const db = getMockDb();
+      db.favoritos[usuario!.id] = (db.favoritos[usuario!.id] ?? []).filter((id) => id !== params.id);
+      return new Response(null, { status: 204 });
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/borradores",
+    auth: "USER",
+    handle: ({ usuario }) => json(getMockDb().borradores[usuario!.id] ?? []),
+  },
+  {
+    method: "PUT",
+    pattern: "/api/borradores/:id",
+    auth: "USER",
+    handle: async ({ request, params, usuario }) => {
+      const db = getMockDb();
+      const borrador = { ...(await request.json()), id: params.id };
+      const otros = (db.borradores[usuario!.id] ?? []).filter((b) => b.id !== params.id);
+      db.borradores[usuario!.id] = [borrador, ...otros];
+      return json(borrador);
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/borradores/:id",
+    auth: "USER",
+    handle: ({ params, usuario }) => {
+      const db = getMockDb();
+      db.borradores[usuario!.id] = (db.borradores[usuario!.id] ?? []).filter((b) => b.id !== params.id);
+      return new Response(null, { status: 204 });
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/empresas/mis-empresas",
+    auth: "USER",
+    handle: ({ usuario }) => {
+      const ids = new Set(
+        getMockDb()
+          .ofertas.filter((oferta) => oferta.usuarioPublicador.email === usuario?.email)
+          .map((oferta) => oferta.empresa?.id)
+      );
+      return json(getMockDb().empresas.filter((empresa) => ids.has(empresa.id)));
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/empresas/:slug",
+    handle: ({ params }) => {
+      const empresa = getMockDb().empresas.find((e) => e.slug === params.slug);
+      return empresa ? json(empresa) : text("Empresa no encontrada", 404);
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/categorias",
+    handle: () => json(getMockDb().categorias),
+  },
+  {
+    method: "GET",
+    pattern: "/api/categorias/imagenes/all/:id",
+    auth: "ADMIN",
+    handle: ({ params }) => {
+      const categoria = getMockDb().categorias.find((cat) => cat.id === params.id);
+      return categoria ? json(categoria.imagenes) : text("Categoría no encontrada", 404);
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/api/categorias/imagenes/:id",
+    handle: ({ params }) => {
+      const imagenes = getMockDb().categorias.find((cat) => cat.id === params.id)?.imagenes ?? [];
+      if (imagenes.length === 0) return text("Sin imágenes", 404);
+      return text(imagenes[Math.floor(Math.random() * imagenes.length)]);
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/categorias/imagenes/:id",
+    auth: "ADMIN",
+    handle: async ({ request, params }) => {
+      const categoria = getMockDb().categorias.find((cat) => cat.id === params.id);
+      if (!categoria) return text("Categoría no encontrada", 404);
+      const imageUrl = await request.text();
+      categoria.imagenes.push(imageUrl);
+      return json(imageUrl, 201);
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/api/categorias/imagenes/:id",
+    auth: "ADMIN",
+    handle: async ({ request, params }) => {
+      const categoria = getMockDb().categorias.find((cat) => cat.id === params.id);
+      if (!categoria) return text("Categoría no encontrada", 404);
+      const imageUrl = await request.text();
+      categoria.imagenes = categoria.imagenes.filter((imagen) => imagen !== imageUrl);
+      return json(imageUrl);
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/applications/apply/:id",
+    auth: "USER",
+    handle: async ({ request, params }) => {
+      const oferta = findOferta(params.id);
+      if (!oferta) return text("Oferta no encontrada", 404);
+      if (isCerrada(oferta)) return text("La búsqueda ya finalizó", 409);
+      const formData = await request.formData();
+      const file = formData.get("file");
+      getMockDb().postulaciones.push({
+        ofertaId: params.id,
+        applicantEmail: String(formData.get("applicantEmail")),
+        fileName: file instanceof File ? file.name : "cv",
+      });
+      return text("Postulación enviada");
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/api/contacto",
+    handle: async ({ request }) => {
+      getMockDb().mensajes.push(await request.json());
+      return text("Mensaje enviado");
+    },
+  },
+];
+
+const matchPattern = (pattern: string, path: string): Record<string, string> | null => {
+  const patternParts = pattern.split("/").filter(Boolean);
+  const pathParts = path.split("/").filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(":")) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+/**
+ * Resuelve una solicitud contra el backend simulado. `path` es la ruta tal como la
+ * pide el cliente (por ejemplo `/api/ofertas/detalles/mi-aviso`).
+ */
+export async function handleMockRequest(request: Request, path: string): Promise<Response> {
+  const method = request.method as HttpMethod;
+
+  for (const route of routes) {
+    if (route.method !== method) continue;
+    const params = matchPattern(route.pattern, path);
+    if (!params) continue;
+
+    const usuario = findUsuarioByToken(request.headers.get("Authorization"));
+    if (route.auth && !usuario) {
+      return text("Token inválido o expirado", 401);
+    }
+    if (route.auth && !requireRole(usuario, route.auth)) {
+      return text("Acceso denegado", 403);
+    }
+
+    return route.handle({ request, params, url: new URL(request.url), usuario });
+  }
+
+  return text(`No existe el endpoint simulado ${method} ${path}`, 404);
+}
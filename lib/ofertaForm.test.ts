@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { datosDesdeFormulario, ofertaFormSchema, OfertaFormValues, valoresDesdeOferta } from "./ofertaForm";
+import { mockOfertas } from "./mock/fixtures";
+
+const valores: OfertaFormValues = {
+  titulo: "Cocinero/a",
+  descripcion: "<p>Cantina del puerto</p>",
+  empresaConsultora: "Cantina del Puerto",
+  empresaId: null,
+  categoria: "cat-gastronomia",
+  etiquetas: [],
+  modalidad: "PRESENCIAL",
+  jornada: "FULL_TIME",
+  formaPostulacion: "MAIL",
+  emailContacto: "rrhh@cantina.test",
+  localidad: "Puerto Madryn",
+  salarioAConvenir: false,
+};
+
+const erroresDe = (cambios: Partial<OfertaFormValues>) => {
+  const result = ofertaFormSchema.safeParse({ ...valores, ...cambios });
+  return result.success ? {} : result.error.flatten().fieldErrors;
+};
+
+describe("ofertaFormSchema", () => {
+  it("acepta un aviso completo", () => {
+    expect(erroresDe({})).toEqual({});
+  });
+
+  it.each([
+    ["Cocinero/a - Temporada 2026"],
+    ["Mozo/a (turno noche)"],
+    ["Recepcionista bilingüe, inglés y portugués"],
+    ["¿Sabés manejar? ¡Buscamos chofer!"],
+    ["Técnico/a en refrigeración & climatización"],
+    ["Mozo/a - Sueldo $ 200000"],
+    ["Cadete con bono de 10000 por mes"],
+    ["Guardavidas temporada 2026    turno tarde"],
+  ])("acepta el título %s", (titulo) => {
+    expect(erroresDe({ titulo })).toEqual({});
+  });
+
+  it.each([["Peña Folclórica Ñandú"], ["Pesca & Mar S.R.L."], ["O'Higgins Logística"]])(
+    "acepta la empresa %s",
+    (empresaConsultora) => {
+      expect(erroresDe({ empresaConsultora })).toEqual({});
+    }
+  );
+
+  it.each([
+    ["Mozo <script>", "sólo puede tener letras, números y signos de puntuación comunes"],
+    ["Vendedor 💰💰💰", "sólo puede tener letras, números y signos de puntuación comunes"],
+    ["URGENTE!!!!!", "no puede repetir el mismo carácter tantas veces seguidas"],
+    ["Vendedorrrrr", "no puede repetir el mismo carácter tantas veces seguidas"],
+    ["Cajero/a escribime a jefe@negocio.test", "no puede incluir links ni emails"],
+    ["Repartidor www.negocio.test", "no puede incluir links ni emails"],
+  ])("rechaza el título %s", (titulo, mensaje) => {
+    expect(erroresDe({ titulo }).titulo?.[0]).toContain(mensaje);
+  });
+
+  it("no acepta títulos vacíos o sólo con espacios", () => {
+    expect(erroresDe({ titulo: "   " }).titulo).toEqual(["El título es obligatorio"]);
+  });
+
+  it("pide el contacto de la forma de postulación elegida", () => {
+    expect(erroresDe({ formaPostulacion: "LINK", emailContacto: null }).linkPostulacion).toBeDefined();
+    expect(erroresDe({ formaPostulacion: "WHATSAPP", telefonoPostulacion: "123" }).telefonoPostulacion).toBeDefined();
+    expect(erroresDe({ formaPostulacion: "PRESENCIAL" })).toMatchObject({
+      direccionPostulacion: expect.any(Array),
+      horarioPostulacion: expect.any(Array),
+    });
+  });
+
+  it("valida el rango y el período del salario", () => {
+    expect(erroresDe({ salarioMin: "900000", salarioMax: "800000", periodoSalario: "MES" }).salarioMax).toBeDefined();
+    expect(erroresDe({ salarioMin: "900000" }).periodoSalario).toBeDefined();
+    expect(erroresDe({ salarioAConvenir: true, salarioMin: "900000" })).toEqual({});
+  });
+
+  it("no acepta fechas de cierre pasadas pero sí la de hoy", () => {
+    const hoy = new Date();
+    const fecha = (dias: number) => {
+      const d = new Date(hoy.getFullYear(), hoy.getMonth(), hoy.getDate() + dias);
+      return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+    };
+
+    expect(erroresDe({ fechaCierre: fecha(-1) }).fechaCierre).toEqual(["La fecha de cierre no puede ser anterior a hoy"]);
+    expect(erroresDe({ fechaCierre: fecha(0) })).toEqual({});
+  });
+
+  it("acepta programar la publicación y pide que cierre después", () => {
+    expect(erroresDe({ fechaProgramada: "2030-06-12", fechaCierre: "2030-07-31" })).toEqual({});
+    expect(erroresDe({ fechaProgramada: "2020-06-12" }).fechaProgramada).toEqual([
+      "La fecha de publicación no puede ser anterior a hoy",
+    ]);
+    expect(erroresDe({ fechaProgramada: "2030-06-12", fechaCierre: "2030-06-01" }).fechaCierre).toEqual([
+      "La fecha de cierre no puede ser anterior a la de publicación",
+    ]);
+  });
+});
+
+describe("valoresDesdeOferta", () => {
+  it("reparte el contacto en el campo de la forma de postulación", () => {
+    const values = valoresDesdeOferta(mockOfertas[2]);
+
+    expect(values).toMatchObject({
+      formaPostulacion: "WHATSAPP",
+      telefonoPostulacion: "0280 15 412-3456",
+      emailContacto: null,
+      empresaId: "empresa-pesquera-del-golfo",
+      fechaProgramada: null,
+    });
+  });
+
+  it("conserva la fecha de publicación de un aviso programado", () => {
+    expect(valoresDesdeOferta(mockOfertas[5]).fechaProgramada).toBe("2030-06-12");
+  });
+});
+
+describe("datosDesdeFormulario", () => {
+  it("convierte montos y fechas y deja en null los campos vacíos", () => {
+    const datos = datosDesdeFormulario({ ...valores, fechaCierre: "2030-03-01", salarioMin: "800000", barrio: "" });
+
+    expect(datos).toMatchObject({
+      categoriaId: "cat-gastronomia",
+      fechaProgramada: null,
+      fechaCierre: "2030-03-01T00:00:00.000Z",
+      salarioMin: 800000,
+      salarioMax: null,
+      barrio: null,
+    });
+  });
+});
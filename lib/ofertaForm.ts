@@ -0,0 +1,252 @@
+import { z } from "zod";
+import { DefaultValues } from "react-hook-form";
+import { formaPostulacionSchema, jornadaSchema, modalidadSchema, Oferta, periodoSalarioSchema } from "./types/iOferta";
+import { isValidTelefono } from "./telefono";
+import { MAX_ETIQUETA_LENGTH, MAX_ETIQUETAS } from "./etiquetas";
+import { DEFAULT_LOCALIDAD, getLocalidad, LOCALIDADES } from "./localidades";
+import { isProgramada } from "./publicacion";
+import { fechaInputLocal } from "./cierre";
+
+// Letras con tildes, ñ y diéresis, números y la puntuación habitual de un aviso: "Cocinero/a - Temporada 2026 (turno noche) $ 800000"
+const TEXTO_PERMITIDO = /^[\p{L}\p{N}\s.,;:()'"¿?¡!&+/#°º%$-]*$/u;
+// Más de tres signos o letras iguales seguidos suele ser relleno para llamar la atención ("URGENTE!!!!!").
+// Los números y los espacios quedan afuera: "$ 200000" es un sueldo, no relleno
+const CARACTER_REPETIDO = /([^\p{N}\s])\1{3,}/u;
+// Los datos de contacto van en la forma de postulación, no en el título ni en el nombre de la empresa
+const CONTACTO_EMBEBIDO = /https?:\/\/|www\.|\S+@\S+\.\S+/i;
+
+const textoCorto = (campo: string) =>
+  z
+    .string()
+    .trim()
+    .min(1, `El ${campo} es obligatorio`)
+    .max(150, `El ${campo} no puede superar los 150 caracteres`)
+    .refine((val) => !CONTACTO_EMBEBIDO.test(val), {
+      message: `El ${campo} no puede incluir links ni emails`,
+    })
+    .refine((val) => TEXTO_PERMITIDO.test(val), {
+      message: `El ${campo} sólo puede tener letras, números y signos de puntuación comunes`,
+    })
+    .refine((val) => !CARACTER_REPETIDO.test(val), {
+      message: `El ${campo} no puede repetir el mismo carácter tantas veces seguidas`,
+    });
+
+/** Esquema del formulario para publicar y editar avisos. */
+export const ofertaFormSchema = z
+  .object({
+    titulo: textoCorto("título"),
+    descripcion: z
+      .string()
+      .trim()
+      .min(1, "La descripción es obligatoria")
+      .max(5000, "La descripción no puede superar los 5000 caracteres"),
+    empresaConsultora: textoCorto("nombre de la empresa"),
+    empresaId: z.string().nullable(),
+    empresaDescripcion: z
+      .string()
+      .trim()
+      .max(500, "La descripción de la empresa no puede superar los 500 caracteres")
+      .optional()
+      .nullable(),
+    empresaSitioWeb: z.string().trim().url("Debes ingresar una URL válida (ej: https://example.com)").optional().nullable(),
+    categoria: z.string().min(1, "Debes seleccionar una categoría"),
+    etiquetas: z
+      .array(z.string().max(MAX_ETIQUETA_LENGTH, `Cada etiqueta puede tener hasta ${MAX_ETIQUETA_LENGTH} caracteres`))
+      .max(MAX_ETIQUETAS, `Puedes agregar hasta ${MAX_ETIQUETAS} etiquetas`),
+    modalidad: z.enum(modalidadSchema.options, {
+      required_error: "Debes seleccionar la modalidad de trabajo",
+    }),
+    jornada: z.enum(jornadaSchema.options, {
+      required_error: "Debes seleccionar el tipo de jornada",
+    }),
+    formaPostulacion: z.enum(formaPostulacionSchema.options, {
+      required_error: "Debes seleccionar una forma de postulación",
+    }),
+    emailContacto: z.string().trim().email("Debes ingresar un email válido").optional().nullable(),
+    linkPostulacion: z.string().trim().url("Debes ingresar una URL válida (ej: https://example.com)").optional().nullable(),
+    telefonoPostulacion: z.string().trim().optional().nullable(),
+    direccionPostulacion: z
+      .string()
+      .trim()
+      .max(150, "La dirección no puede superar los 150 caracteres")
+      .optional()
+      .nullable(),
+    horarioPostulacion: z
+      .string()
+      .trim()
+      .max(100, "El horario no puede superar los 100 caracteres")
+      .optional()
+      .nullable(),
+    fechaProgramada: z.string().optional().nullable(),
+    fechaCierre: z.string().optional().nullable(),
+    localidad: z.enum(LOCALIDADES, {
+      required_error: "Debes seleccionar una localidad",
+    }),
+    barrio: z.string().trim().max(100, "El barrio no puede superar los 100 caracteres").optional().nullable(),
+    direccion: z.string().trim().max(150, "La dirección no puede superar los 150 caracteres").optional().nullable(),
+    salarioAConvenir: z.boolean(),
+    salarioMin: z.string().trim().regex(/^\d*$/, "Ingresa sólo números, sin puntos ni signos").optional().nullable(),
+    salarioMax: z.string().trim().regex(/^\d*$/, "Ingresa sólo números, sin puntos ni signos").optional().nullable(),
+    periodoSalario: periodoSalarioSchema.optional().nullable(),
+    logo: z
+      .instanceof(File)
+      .optional()
+      .refine((file) => !file || file.size <= 5 * 1024 * 1024, {
+        message: "El archivo no puede superar los 5MB",
+      })
+      .refine((file) => !file || ["image/png", "image/jpeg", "image/jpg"].includes(file.type), {
+        message: "Solo se permiten imágenes en formato PNG, JPEG o JPG",
+      }),
+    // El logo ya subido que se conserva al editar mientras no se elija otro
+    logoUrl: z.string().nullable().optional(),
+  })
+  .refine((data) => data.formaPostulacion !== "MAIL" || !!data.emailContacto, {
+    message: "Debes ingresar un email válido para postulación por email",
+    path: ["emailContacto"],
+  })
+  .refine((data) => data.formaPostulacion !== "LINK" || !!data.linkPostulacion, {
+    message: "Debes ingresar una URL válida para postulación por enlace",
+    path: ["linkPostulacion"],
+  })
+  .refine(
+    (data) =>
+      (data.formaPostulacion !== "WHATSAPP" && data.formaPostulacion !== "TELEFONO") ||
+      isValidTelefono(data.telefonoPostulacion ?? ""),
+    {
+      message: "Debes ingresar un teléfono válido con código de área (ej: 0280 15 456-7890)",
+      path: ["telefonoPostulacion"],
+    }
+  )
+  .refine((data) => data.formaPostulacion !== "PRESENCIAL" || (data.direccionPostulacion?.length ?? 0) >= 5, {
+    message: "Debes indicar la dirección donde presentarse con el CV",
+    path: ["direccionPostulacion"],
+  })
+  .refine((data) => data.formaPostulacion !== "PRESENCIAL" || !!data.horarioPostulacion, {
+    message: "Debes indicar los días y horarios para presentarse",
+    path: ["horarioPostulacion"],
+  })
+  .refine(
+    (data) =>
+      data.salarioAConvenir || !data.salarioMin || !data.salarioMax || Number(data.salarioMax) >= Number(data.salarioMin),
+    {
+      message: "El salario máximo no puede ser menor al mínimo",
+      path: ["salarioMax"],
+    }
+  )
+  .refine((data) => data.salarioAConvenir || !(data.salarioMin || data.salarioMax) || !!data.periodoSalario, {
+    message: "Debes indicar si el salario es por hora, por mes o por temporada",
+    path: ["periodoSalario"],
+  })
+  .refine((data) => !data.fechaProgramada || data.fechaProgramada >= fechaInputLocal(), {
+    message: "La fecha de publicación no puede ser anterior a hoy",
+    path: ["fechaProgramada"],
+  })
+  .refine((data) => !data.fechaCierre || data.fechaCierre >= fechaInputLocal(), {
+    message: "La fecha de cierre no puede ser anterior a hoy",
+    path: ["fechaCierre"],
+  })
+  .refine((data) => !data.fechaCierre || !data.fechaProgramada || data.fechaCierre >= data.fechaProgramada, {
+    message: "La fecha de cierre no puede ser anterior a la de publicación",
+    path: ["fechaCierre"],
+  });
+
+export type OfertaFormValues = z.infer<typeof ofertaFormSchema>;
+
+export const VALORES_INICIALES: DefaultValues<OfertaFormValues> = {
+  titulo: "",
+  descripcion: "",
+  empresaConsultora: "",
+  empresaId: null,
+  empresaDescripcion: null,
+  empresaSitioWeb: null,
+  categoria: "",
+  formaPostulacion: "MAIL",
+  emailContacto: null,
+  linkPostulacion: null,
+  telefonoPostulacion: null,
+  direccionPostulacion: null,
+  horarioPostulacion: null,
+  fechaProgramada: null,
+  fechaCierre: null,
+  etiquetas: [],
+  modalidad: undefined,
+  jornada: undefined,
+  localidad: DEFAULT_LOCALIDAD,
+  barrio: null,
+  direccion: null,
+  salarioAConvenir: false,
+  salarioMin: null,
+  salarioMax: null,
+  periodoSalario: null,
+  logo: undefined,
+  logoUrl: null,
+};
+
+/** Carga en el formulario los datos de un aviso existente, para editarlo o duplicarlo. */
+export function valoresDesdeOferta(oferta: Oferta): DefaultValues<OfertaFormValues> {
+  const contacto = oferta.contactoPostulacion || null;
+  return {
+    titulo: oferta.titulo,
+    descripcion: oferta.descripcion,
+    empresaConsultora: oferta.empresa?.nombre || oferta.empresaConsultora || "",
+    empresaId: oferta.empresa?.id ?? null,
+    empresaDescripcion: null,
+    empresaSitioWeb: null,
+    categoria: oferta.categoria?.id || "",
+    formaPostulacion: oferta.formaPostulacion || "MAIL",
+    emailContacto: oferta.formaPostulacion === "MAIL" ? contacto : null,
+    linkPostulacion: oferta.formaPostulacion === "LINK" ? contacto : null,
+    telefonoPostulacion: oferta.formaPostulacion === "WHATSAPP" || oferta.formaPostulacion === "TELEFONO" ? contacto : null,
+    direccionPostulacion: oferta.formaPostulacion === "PRESENCIAL" ? contacto : null,
+    horarioPostulacion: oferta.horarioPostulacion ?? null,
+    // Sólo se muestra la fecha mientras siga programada; la de un aviso ya publicado no se edita
+    fechaProgramada: oferta.fechaProgramada && isProgramada(oferta) ? oferta.fechaProgramada.slice(0, 10) : null,
+    fechaCierre: oferta.fechaCierre ? new Date(oferta.fechaCierre).toISOString().split("T")[0] : null,
+    etiquetas: oferta.etiquetas ?? [],
+    modalidad: oferta.modalidad ?? undefined,
+    jornada: oferta.jornada ?? undefined,
+    localidad: LOCALIDADES.find((nombre) => nombre === getLocalidad(oferta)) ?? DEFAULT_LOCALIDAD,
+    barrio: oferta.barrio ?? null,
+    direccion: oferta.direccion ?? null,
+    salarioAConvenir: oferta.salarioAConvenir ?? false,
+    salarioMin: oferta.salarioMin ? String(oferta.salarioMin) : null,
+    salarioMax: oferta.salarioMax ? String(oferta.salarioMax) : null,
+    periodoSalario: oferta.periodoSalario ?? null,
+    logo: undefined,
+    logoUrl: oferta.logoUrl ?? null,
+  };
+}
+
+/** Convierte los valores del formulario en los datos que esperan `createOferta` y `updateOferta`. */
+export function datosDesdeFormulario(values: OfertaFormValues) {
+  return {
+    titulo: values.titulo,
+    descripcion: values.descripcion,
+    empresaConsultora: values.empresaConsultora,
+    empresaId: values.empresaId,
+    empresaDescripcion: values.empresaDescripcion || null,
+    empresaSitioWeb: values.empresaSitioWeb || null,
+    // Se envía sólo el día: se compara con la fecha local y no con la hora UTC
+    fechaProgramada: values.fechaProgramada || null,
+    fechaCierre: values.fechaCierre ? new Date(values.fechaCierre).toISOString() : null,
+    formaPostulacion: values.formaPostulacion,
+    emailContacto: values.emailContacto || null,
+    linkPostulacion: values.linkPostulacion || null,
+    telefonoPostulacion: values.telefonoPostulacion || null,
+    direccionPostulacion: values.direccionPostulacion || null,
+    horarioPostulacion: values.horarioPostulacion || null,
+    categoriaId: values.categoria,
+    etiquetas: values.etiquetas,
+    modalidad: values.modalidad,
+    jornada: values.jornada,
+    localidad: values.localidad,
+    barrio: values.barrio || null,
+    direccion: values.direccion || null,
+    salarioAConvenir: values.salarioAConvenir,
+    salarioMin: values.salarioMin ? Number(values.salarioMin) : null,
+    salarioMax: values.salarioMax ? Number(values.salarioMax) : null,
+    periodoSalario: values.periodoSalario ?? null,
+    logo: values.logo ?? null,
+    logoUrl: values.logoUrl ?? null,
+  };
+}
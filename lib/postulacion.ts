@@ -0,0 +1,12 @@
+import { Oferta } from "./types/iOferta";
+import { telefonoHref, whatsappHref } from "./telefono";
+
+type OfertaContacto = Pick<Oferta, "titulo" | "contactoPostulacion">;
+
+export const whatsappPostulacionHref = ({ titulo, contactoPostulacion }: OfertaContacto) =>
+  contactoPostulacion
+    ? whatsappHref(contactoPostulacion, `Hola, vi el aviso "${titulo}" en Madryn Empleos y quiero postularme.`)
+    : null;
+
+export const telefonoPostulacionHref = ({ contactoPostulacion }: OfertaContacto) =>
+  contactoPostulacion ? telefonoHref(contactoPostulacion) : null;
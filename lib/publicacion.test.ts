@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { isProgramada, programadaLabel } from "./publicacion";
+
+const now = new Date(2026, 5, 10, 18, 30);
+
+describe("isProgramada", () => {
+  it("se publica desde el mismo día elegido", () => {
+    expect(isProgramada({ fechaProgramada: "2026-06-12" }, now)).toBe(true);
+    expect(isProgramada({ fechaProgramada: "2026-06-10" }, now)).toBe(false);
+    expect(isProgramada({ fechaProgramada: "2026-05-02" }, now)).toBe(false);
+  });
+
+  it("sin fecha elegida no está programada, aunque en UTC ya sea el día siguiente", () => {
+    const noche = new Date(2026, 5, 10, 23, 59);
+
+    expect(isProgramada({ fechaProgramada: null }, noche)).toBe(false);
+    expect(isProgramada({ fechaProgramada: "2026-06-10" }, noche)).toBe(false);
+  });
+});
+
+describe("programadaLabel", () => {
+  it("muestra el día y el mes de publicación", () => {
+    expect(programadaLabel({ fechaProgramada: "2026-06-12" }, now)).toBe("Programado para el 12/06");
+    expect(programadaLabel({ fechaProgramada: "2026-06-10" }, now)).toBeNull();
+    expect(programadaLabel({ fechaProgramada: null }, now)).toBeNull();
+  });
+});
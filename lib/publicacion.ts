@@ -0,0 +1,19 @@
+import { Oferta } from "./types/iOferta";
+import { diasHastaFecha } from "./cierre";
+
+type OfertaConPublicacion = Pick<Oferta, "fechaProgramada">;
+
+/**
+ * Una oferta aprobada con fecha programada futura todavía no se muestra en los listados. Sólo
+ * cuenta el día elegido por quien publica, comparado con la fecha local.
+ */
+export function isProgramada(oferta: OfertaConPublicacion, now: Date = new Date()): boolean {
+  return !!oferta.fechaProgramada && diasHastaFecha(oferta.fechaProgramada, now) > 0;
+}
+
+/** Texto para quien publica, por ejemplo "Programado para el 12/06", o null si ya está publicada. */
+export function programadaLabel(oferta: OfertaConPublicacion, now: Date = new Date()): string | null {
+  if (!oferta.fechaProgramada || !isProgramada(oferta, now)) return null;
+  const [, month, day] = oferta.fechaProgramada.slice(0, 10).split("-");
+  return `Programado para el ${day}/${month}`;
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { requireRole } from "./roles";
+
+describe("requireRole", () => {
+  it("respeta la jerarquía de roles", () => {
+    expect(requireRole({ rol: "ADMIN" }, "MODERATOR")).toBe(true);
+    expect(requireRole({ rol: "MODERATOR" }, "MODERATOR")).toBe(true);
+    expect(requireRole({ rol: "MODERATOR" }, "ADMIN")).toBe(false);
+    expect(requireRole({ rol: "USER" }, "MODERATOR")).toBe(false);
+  });
+
+  it("no cumple sin sesión o sin rol", () => {
+    expect(requireRole(null, "USER")).toBe(false);
+    expect(requireRole({}, "USER")).toBe(false);
+  });
+});
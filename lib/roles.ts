@@ -0,0 +1,17 @@
+import { Rol } from "./types/iRol";
+
+// Cada rol incluye los permisos de los anteriores: un administrador también modera
+const ROL_LEVEL: Record<Rol, number> = {
+  USER: 0,
+  MODERATOR: 1,
+  ADMIN: 2,
+};
+
+/**
+ * Indica si el usuario (la sesión, el JWT de NextAuth o cualquier objeto con `rol`)
+ * tiene al menos el rol pedido. Sin sesión o sin rol nunca cumple.
+ */
+export function requireRole(usuario: { rol?: Rol } | null | undefined, required: Rol): boolean {
+  if (!usuario?.rol) return false;
+  return ROL_LEVEL[usuario.rol] >= ROL_LEVEL[required];
+}
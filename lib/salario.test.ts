@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { formatSalario, matchesSalario } from "./salario";
+
+const sinSalario = { salarioMin: null, salarioMax: null, periodoSalario: null, salarioAConvenir: false };
+
+// Intl separa el signo del monto con un espacio duro
+const normalize = (text: string | null) => text?.replace(/\s/g, " ");
+
+describe("formatSalario", () => {
+  it("muestra el rango con su período", () => {
+    const salario = formatSalario({ ...sinSalario, salarioMin: 800000, salarioMax: 950000, periodoSalario: "MES" });
+
+    expect(normalize(salario)).toBe("$ 800.000 - $ 950.000 por mes");
+  });
+
+  it("muestra sólo el mínimo o el máximo cuando falta el otro", () => {
+    expect(normalize(formatSalario({ ...sinSalario, salarioMin: 4500, periodoSalario: "HORA" }))).toBe("Desde $ 4.500 por hora");
+    expect(normalize(formatSalario({ ...sinSalario, salarioMax: 3000000 }))).toBe("Hasta $ 3.000.000");
+  });
+
+  it("prioriza el salario a convenir", () => {
+    expect(formatSalario({ ...sinSalario, salarioMin: 800000, salarioAConvenir: true })).toBe("A convenir");
+  });
+
+  it("devuelve null si el aviso no informa salario", () => {
+    expect(formatSalario(sinSalario)).toBeNull();
+  });
+});
+
+describe("matchesSalario", () => {
+  const mensual = { ...sinSalario, salarioMin: 800000, salarioMax: 950000, periodoSalario: "MES" as const };
+
+  it("compara contra el máximo del rango", () => {
+    expect(matchesSalario(mensual, { salarioDesde: 900000 })).toBe(true);
+    expect(matchesSalario(mensual, { salarioDesde: 1000000 })).toBe(false);
+  });
+
+  it("filtra por período", () => {
+    expect(matchesSalario(mensual, { periodoSalario: "MES" })).toBe(true);
+    expect(matchesSalario(mensual, { periodoSalario: "HORA" })).toBe(false);
+  });
+
+  it("excluye los avisos sin montos cuando se pide un mínimo", () => {
+    expect(matchesSalario({ ...sinSalario, salarioAConvenir: true }, { salarioDesde: 1 })).toBe(false);
+    expect(matchesSalario(sinSalario, { salarioDesde: 1 })).toBe(false);
+    expect(matchesSalario(sinSalario, {})).toBe(true);
+  });
+});
@@ -0,0 +1,51 @@
+import { Oferta, PeriodoSalario } from "./types/iOferta";
+
+// `label` para los selectores y `sufijo` para el monto del aviso ("$ 800.000 por mes")
+export const PERIODOS_SALARIO: Record<PeriodoSalario, { label: string; sufijo: string }> = {
+  HORA: { label: "Por hora", sufijo: "por hora" },
+  MES: { label: "Por mes", sufijo: "por mes" },
+  TEMPORADA: { label: "Por temporada", sufijo: "por temporada" },
+};
+
+const formatMonto = (monto: number) =>
+  new Intl.NumberFormat("es-AR", { style: "currency", currency: "ARS", maximumFractionDigits: 0 }).format(monto);
+
+type OfertaSalario = Pick<Oferta, "salarioMin" | "salarioMax" | "periodoSalario" | "salarioAConvenir">;
+
+/**
+ * Texto del salario para mostrar en el aviso, por ejemplo "$ 800.000 - $ 950.000 por mes".
+ * Devuelve `null` si el aviso no informa nada sobre la remuneración.
+ */
+export function formatSalario({ salarioMin, salarioMax, periodoSalario, salarioAConvenir }: OfertaSalario): string | null {
+  if (salarioAConvenir) return "A convenir";
+
+  let monto: string;
+  if (salarioMin && salarioMax && salarioMin !== salarioMax) {
+    monto = `${formatMonto(salarioMin)} - ${formatMonto(salarioMax)}`;
+  } else if (salarioMin && salarioMax) {
+    monto = formatMonto(salarioMin);
+  } else if (salarioMin) {
+    monto = `Desde ${formatMonto(salarioMin)}`;
+  } else if (salarioMax) {
+    monto = `Hasta ${formatMonto(salarioMax)}`;
+  } else {
+    return null;
+  }
+
+  return periodoSalario ? `${monto} ${PERIODOS_SALARIO[periodoSalario].sufijo}` : monto;
+}
+
+/**
+ * Indica si el aviso paga al menos `salarioDesde` en el período pedido. Los avisos sin
+ * montos (o "a convenir") no cumplen el filtro porque no se pueden comparar.
+ */
+export function matchesSalario(
+  oferta: OfertaSalario,
+  { salarioDesde, periodoSalario }: { salarioDesde?: number; periodoSalario?: PeriodoSalario }
+): boolean {
+  if (periodoSalario && oferta.periodoSalario !== periodoSalario) return false;
+  if (!salarioDesde) return true;
+  if (oferta.salarioAConvenir) return false;
+  const tope = oferta.salarioMax ?? oferta.salarioMin;
+  return !!tope && tope >= salarioDesde;
+}
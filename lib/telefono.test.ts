@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { isValidTelefono, normalizeTelefono, telefonoHref, whatsappHref } from "./telefono";
+
+describe("normalizeTelefono", () => {
+  it.each([
+    ["2804567890"],
+    ["0280 456-7890"],
+    ["0280 15 456-7890"],
+    ["(0280) 154567890"],
+    ["+54 9 280 456 7890"],
+    ["+54 280 4567890"],
+  ])("acepta %s", (telefono) => {
+    expect(normalizeTelefono(telefono)).toBe("2804567890");
+  });
+
+  it("acepta números de Buenos Aires con código de área de 2 dígitos", () => {
+    expect(normalizeTelefono("011 15 1234-5678")).toBe("1112345678");
+  });
+
+  it.each([["4567890"], ["280 456 78901 23"], ["no tengo"], [""]])("rechaza %s", (telefono) => {
+    expect(isValidTelefono(telefono)).toBe(false);
+  });
+});
+
+describe("links de contacto", () => {
+  it("arma el link tel: con el prefijo internacional", () => {
+    expect(telefonoHref("0280 15 456-7890")).toBe("tel:+542804567890");
+  });
+
+  it("arma el link de WhatsApp con el mensaje", () => {
+    expect(whatsappHref("280 4567890", "Hola, vi el aviso")).toBe("https://wa.me/5492804567890?text=Hola%2C%20vi%20el%20aviso");
+  });
+
+  it("no arma links para teléfonos inválidos", () => {
+    expect(whatsappHref("123", "Hola")).toBeNull();
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Normaliza un teléfono argentino a sus 10 dígitos nacionales (código de área sin 0 más
+ * el número, sin 15). Acepta los formatos habituales: "0280 15 456-7890", "+54 9 280 4567890",
+ * "2804567890". Devuelve `null` si no es un número válido.
+ */
+export function normalizeTelefono(value: string): string | null {
+  let digits = value.replace(/\D/g, "");
+  if (digits.startsWith("54")) digits = digits.slice(2);
+  if (digits.startsWith("9") && digits.length === 11) digits = digits.slice(1);
+  if (digits.startsWith("0")) digits = digits.slice(1);
+
+  // El 15 de los celulares va después del código de área, que tiene entre 2 y 4 dígitos
+  if (digits.length === 12) {
+    const areaLength = [4, 3, 2].find((length) => digits.slice(length, length + 2) === "15");
+    if (areaLength) digits = digits.slice(0, areaLength) + digits.slice(areaLength + 2);
+  }
+
+  return /^[1-9]\d{9}$/.test(digits) ? digits : null;
+}
+
+export const isValidTelefono = (value: string) => normalizeTelefono(value) !== null;
+
+export function telefonoHref(value: string): string | null {
+  const telefono = normalizeTelefono(value);
+  return telefono ? `tel:+54${telefono}` : null;
+}
+
+/** Enlace de WhatsApp con el mensaje ya escrito; los celulares argentinos llevan el 9 después del 54. */
+export function whatsappHref(value: string, mensaje: string): string | null {
+  const telefono = normalizeTelefono(value);
+  return telefono ? `https://wa.me/549${telefono}?text=${encodeURIComponent(mensaje)}` : null;
+}
@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+export const borradorSchema = z.object({
+  id: z.string(),
+  // Los valores del formulario tal como estaban, sin el logo porque un archivo no se puede guardar
+  datos: z.record(z.unknown()),
+  actualizado: z.string(),
+});
+
+export type Borrador = z.infer<typeof borradorSchema>;
@@ -1,5 +1,9 @@
-export interface Categoria {
-    id: string;
-    nombre: string;
-    imagenes: string[];
-}
\ No newline at end of file
+import { z } from "zod";
+
+export const categoriaSchema = z.object({
+    id: z.string(),
+    nombre: z.string(),
+    imagenes: z.array(z.string()).default([]),
+});
+
+export type Categoria = z.infer<typeof categoriaSchema>;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const empresaSchema = z.object({
+  id: z.string(),
+  nombre: z.string(),
+  slug: z.string(),
+  logoUrl: z.string().nullish(),
+  descripcion: z.string().nullish(),
+  sitioWeb: z.string().nullish(),
+});
+
+// Lo que viaja embebido en cada oferta, suficiente para mostrar y enlazar la empresa
+export const empresaResumenSchema = empresaSchema.pick({ id: true, nombre: true, slug: true, logoUrl: true });
+
+export type Empresa = z.infer<typeof empresaSchema>;
+export type EmpresaResumen = z.infer<typeof empresaResumenSchema>;
@@ -0,0 +1,8 @@
+import { z } from "zod";
+import { ofertaSchema } from "./iOferta";
+
+export const favoritoSchema = z.object({
+  ofertaEmpleo: ofertaSchema,
+});
+
+export type Favorito = z.infer<typeof favoritoSchema>;
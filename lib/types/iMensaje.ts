@@ -1,6 +1,10 @@
-export interface Mensaje {
-    nombre: string;
-    apellido: string;
-    email: string;
-    mensaje: string;
-}
\ No newline at end of file
+import { z } from "zod";
+
+export const mensajeSchema = z.object({
+    nombre: z.string(),
+    apellido: z.string(),
+    email: z.string().email(),
+    mensaje: z.string(),
+});
+
+export type Mensaje = z.infer<typeof mensajeSchema>;
@@ -1,20 +1,53 @@
-export interface Oferta {
-  id: string;
-  titulo: string;
-  descripcion: string;
-  usuarioPublicador: {
-    email: string;
-  };
-  empresaConsultora: string;
-  fechaPublicacion: string;
-  fechaCierre?: string | null; 
-  formaPostulacion: "MAIL" | "LINK";
-  contactoPostulacion?: string | null; 
-  categoria: {
-    id: string;
-    nombre: string;
-  };
-  logoUrl?: string | null;
-  habilitado: boolean;
-  slug: string;
-}
\ No newline at end of file
+import { z } from "zod";
+import { empresaResumenSchema } from "./iEmpresa";
+
+export const periodoSalarioSchema = z.enum(["HORA", "MES", "TEMPORADA"]);
+export const modalidadSchema = z.enum(["PRESENCIAL", "REMOTO", "HIBRIDO"]);
+export const formaPostulacionSchema = z.enum(["MAIL", "LINK", "WHATSAPP", "TELEFONO", "PRESENCIAL"]);
+export const jornadaSchema = z.enum(["FULL_TIME", "PART_TIME", "TEMPORADA"]);
+
+export const ofertaSchema = z.object({
+  id: z.string(),
+  titulo: z.string(),
+  descripcion: z.string(),
+  usuarioPublicador: z.object({
+    email: z.string(),
+  }),
+  empresaConsultora: z.string(),
+  // Los avisos anteriores a los perfiles de empresa sólo tienen el nombre
+  empresa: empresaResumenSchema.nullish(),
+  fechaPublicacion: z.string(),
+  // Día (yyyy-mm-dd) desde el que se muestra el aviso, si quien publica eligió uno
+  fechaProgramada: z.string().nullish(),
+  fechaCierre: z.string().nullish(),
+  formaPostulacion: formaPostulacionSchema,
+  // Email, link, teléfono o dirección según la forma de postulación
+  contactoPostulacion: z.string().nullish(),
+  horarioPostulacion: z.string().nullish(),
+  categoria: z.object({
+    id: z.string(),
+    nombre: z.string(),
+  }),
+  logoUrl: z.string().nullish(),
+  habilitado: z.boolean(),
+  slug: z.string(),
+  salarioMin: z.number().nullish(),
+  salarioMax: z.number().nullish(),
+  periodoSalario: periodoSalarioSchema.nullish(),
+  salarioAConvenir: z.boolean().nullish(),
+  modalidad: modalidadSchema.nullish(),
+  jornada: jornadaSchema.nullish(),
+  localidad: z.string().nullish(),
+  barrio: z.string().nullish(),
+  direccion: z.string().nullish(),
+  etiquetas: z.array(z.string()).nullish(),
+  // La marca la ponen los administradores y deja de valer al pasar `destacadaHasta`
+  destacada: z.boolean().nullish(),
+  destacadaHasta: z.string().nullish(),
+});
+
+export type Oferta = z.infer<typeof ofertaSchema>;
+export type FormaPostulacion = z.infer<typeof formaPostulacionSchema>;
+export type PeriodoSalario = z.infer<typeof periodoSalarioSchema>;
+export type Modalidad = z.infer<typeof modalidadSchema>;
+export type Jornada = z.infer<typeof jornadaSchema>;
@@ -0,0 +1,5 @@
+import { z } from "zod";
+
+export const rolSchema = z.enum(["ADMIN", "MODERATOR", "USER"]);
+
+export type Rol = z.infer<typeof rolSchema>;
@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Origen ficticio para resolver el destino como lo haría el navegador, también en el servidor
+const CALLBACK_BASE = "http://madryn-empleos.invalid"
+
+// Sólo se aceptan rutas internas para no redirigir a otro sitio después del login. Se resuelve
+// la URL completa porque el navegador convierte, por ejemplo, "/\otro-sitio" en "//otro-sitio"
+export function safeCallbackUrl(callbackUrl: string | null | undefined): string {
+  if (!callbackUrl?.startsWith("/")) return "/"
+  try {
+    const url = new URL(callbackUrl, CALLBACK_BASE)
+    return url.origin === CALLBACK_BASE ? `${url.pathname}${url.search}${url.hash}` : "/"
+  } catch {
+    return "/"
+  }
+}
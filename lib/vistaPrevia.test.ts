@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { ofertaVistaPrevia, ValoresVistaPrevia } from "./vistaPrevia";
+import { ofertaSchema } from "./types/iOferta";
+import { mockCategorias, mockEmpresas, mockOfertas } from "./mock/fixtures";
+
+const valores: ValoresVistaPrevia = {
+  titulo: "Mozo/a de salón",
+  descripcion: "<p>Turno noche</p>",
+  empresaConsultora: "Parrilla La Costa",
+  empresaId: null,
+  categoria: "cat-gastronomia",
+  etiquetas: ["turno noche"],
+  modalidad: "PRESENCIAL",
+  jornada: "PART_TIME",
+  formaPostulacion: "WHATSAPP",
+  emailContacto: "ignorado@parrilla.test",
+  telefonoPostulacion: "0280 15 412-3456",
+  horarioPostulacion: "Ignorado",
+  fechaCierre: "2030-03-01",
+  localidad: "Puerto Madryn",
+  salarioAConvenir: false,
+  salarioMin: "800000",
+  salarioMax: "",
+  periodoSalario: "MES",
+};
+
+describe("ofertaVistaPrevia", () => {
+  it("arma una oferta válida con los datos del formulario", () => {
+    const oferta = ofertaVistaPrevia(valores, {
+      categorias: mockCategorias,
+      usuarioEmail: "empleador@madryn.test",
+      logoUrl: "blob:http://localhost/logo",
+    });
+
+    expect(ofertaSchema.safeParse(oferta).success).toBe(true);
+    expect(oferta).toMatchObject({
+      categoria: { id: "cat-gastronomia", nombre: "Gastronomía" },
+      contactoPostulacion: "0280 15 412-3456",
+      horarioPostulacion: null,
+      salarioMin: 800000,
+      salarioMax: null,
+      logoUrl: "blob:http://localhost/logo",
+      fechaCierre: "2030-03-01T00:00:00.000Z",
+    });
+  });
+
+  it("usa el perfil de la empresa elegida", () => {
+    const oferta = ofertaVistaPrevia(
+      { ...valores, empresaId: mockEmpresas[0].id },
+      { categorias: mockCategorias, empresas: mockEmpresas, usuarioEmail: "empleador@madryn.test" }
+    );
+
+    expect(oferta.empresaConsultora).toBe("Hotel Costanera");
+    expect(oferta.empresa?.slug).toBe("hotel-costanera");
+  });
+
+  it("conserva el slug y la fecha de publicación del aviso que se edita", () => {
+    const original = mockOfertas[0];
+
+    const oferta = ofertaVistaPrevia(valores, {
+      categorias: mockCategorias,
+      usuarioEmail: "empleador@madryn.test",
+      ofertaOriginal: original,
+    });
+
+    expect(oferta).toMatchObject({ id: original.id, slug: original.slug, fechaPublicacion: original.fechaPublicacion });
+  });
+});
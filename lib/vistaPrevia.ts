@@ -0,0 +1,91 @@
+import { Categoria } from "./types/iCategoria";
+import { EmpresaResumen } from "./types/iEmpresa";
+import { FormaPostulacion, Jornada, Modalidad, Oferta, PeriodoSalario } from "./types/iOferta";
+
+/** Valores del formulario de publicación que se muestran en la vista previa. */
+export interface ValoresVistaPrevia {
+  titulo: string;
+  descripcion: string;
+  empresaConsultora: string;
+  empresaId?: string | null;
+  categoria: string;
+  etiquetas?: string[];
+  modalidad?: Modalidad | null;
+  jornada?: Jornada | null;
+  formaPostulacion: FormaPostulacion;
+  emailContacto?: string | null;
+  linkPostulacion?: string | null;
+  telefonoPostulacion?: string | null;
+  direccionPostulacion?: string | null;
+  horarioPostulacion?: string | null;
+  fechaProgramada?: string | null;
+  fechaCierre?: string | null;
+  localidad?: string | null;
+  barrio?: string | null;
+  direccion?: string | null;
+  salarioAConvenir?: boolean;
+  salarioMin?: string | null;
+  salarioMax?: string | null;
+  periodoSalario?: PeriodoSalario | null;
+}
+
+interface ContextoVistaPrevia {
+  categorias: Categoria[];
+  empresas?: EmpresaResumen[];
+  usuarioEmail: string;
+  // URL del logo elegido (un object URL si todavía es un archivo local)
+  logoUrl?: string | null;
+  // Al editar se conservan los datos que el formulario no toca, como el slug o la fecha de publicación
+  ofertaOriginal?: Oferta;
+}
+
+const contactoPostulacion = (valores: ValoresVistaPrevia): string | null => {
+  const contactos: Record<FormaPostulacion, string | null | undefined> = {
+    MAIL: valores.emailContacto,
+    LINK: valores.linkPostulacion,
+    WHATSAPP: valores.telefonoPostulacion,
+    TELEFONO: valores.telefonoPostulacion,
+    PRESENCIAL: valores.direccionPostulacion,
+  };
+  return contactos[valores.formaPostulacion] || null;
+};
+
+/**
+ * Arma una oferta con los datos todavía sin guardar del formulario para mostrarla con
+ * los mismos componentes que el detalle y el listado.
+ */
+export function ofertaVistaPrevia(valores: ValoresVistaPrevia, contexto: ContextoVistaPrevia): Oferta {
+  const { categorias, empresas = [], usuarioEmail, logoUrl, ofertaOriginal } = contexto;
+  const categoria = categorias.find((c) => c.id === valores.categoria);
+  const empresa = valores.empresaId ? empresas.find((e) => e.id === valores.empresaId) : undefined;
+
+  return {
+    ...ofertaOriginal,
+    id: ofertaOriginal?.id ?? "vista-previa",
+    slug: ofertaOriginal?.slug ?? "vista-previa",
+    titulo: valores.titulo,
+    descripcion: valores.descripcion,
+    usuarioPublicador: ofertaOriginal?.usuarioPublicador ?? { email: usuarioEmail },
+    empresaConsultora: empresa?.nombre ?? valores.empresaConsultora,
+    empresa: empresa ? { id: empresa.id, nombre: empresa.nombre, slug: empresa.slug, logoUrl: empresa.logoUrl } : null,
+    fechaPublicacion: ofertaOriginal?.fechaPublicacion ?? new Date().toISOString(),
+    fechaProgramada: valores.fechaProgramada || null,
+    fechaCierre: valores.fechaCierre ? new Date(valores.fechaCierre).toISOString() : null,
+    formaPostulacion: valores.formaPostulacion,
+    contactoPostulacion: contactoPostulacion(valores),
+    horarioPostulacion: valores.formaPostulacion === "PRESENCIAL" ? valores.horarioPostulacion || null : null,
+    categoria: { id: valores.categoria, nombre: categoria?.nombre ?? "Sin categoría" },
+    logoUrl: logoUrl ?? null,
+    habilitado: ofertaOriginal?.habilitado ?? false,
+    salarioAConvenir: valores.salarioAConvenir ?? false,
+    salarioMin: !valores.salarioAConvenir && valores.salarioMin ? Number(valores.salarioMin) : null,
+    salarioMax: !valores.salarioAConvenir && valores.salarioMax ? Number(valores.salarioMax) : null,
+    periodoSalario: valores.salarioAConvenir ? null : valores.periodoSalario ?? null,
+    modalidad: valores.modalidad ?? null,
+    jornada: valores.jornada ?? null,
+    localidad: valores.localidad ?? null,
+    barrio: valores.barrio || null,
+    direccion: valores.direccion || null,
+    etiquetas: valores.etiquetas ?? [],
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { middleware } from "./middleware";
+import { Rol } from "./lib/types/iRol";
+
+vi.mock("next-auth/jwt", () => ({ getToken: vi.fn() }));
+
+const request = (path: string) => new NextRequest(new URL(path, "http://localhost:3000"));
+
+const loginAs = (rol: Rol | null) =>
+  vi.mocked(getToken).mockResolvedValue(rol ? { id: "usuario", backendToken: "token", rol } : null);
+
+describe("middleware", () => {
+  it("redirige al login conservando el destino", async () => {
+    loginAs(null);
+
+    const response = await middleware(request("/editar-aviso/oferta-1?paso=2"));
+
+    expect(response.status).toBe(307);
+    const location = new URL(response.headers.get("location")!);
+    expect(location.pathname).toBe("/login");
+    expect(location.searchParams.get("callbackUrl")).toBe("/editar-aviso/oferta-1?paso=2");
+  });
+
+  it("deja pasar a un usuario con sesión a sus páginas privadas", async () => {
+    loginAs("USER");
+
+    const response = await middleware(request("/mis-favoritos"));
+
+    expect(response.headers.get("x-middleware-next")).toBe("1");
+  });
+
+  it("saca del panel de administración a un usuario común", async () => {
+    loginAs("USER");
+
+    const response = await middleware(request("/admin"));
+
+    expect(response.status).toBe(307);
+    expect(response.headers.get("location")).toBe("http://localhost:3000/");
+  });
+
+  it("deja moderar avisos pero no gestionar imágenes a un moderador", async () => {
+    loginAs("MODERATOR");
+
+    expect((await middleware(request("/admin"))).headers.get("x-middleware-next")).toBe("1");
+    expect((await middleware(request("/admin/imagenes/cat-turismo"))).headers.get("location")).toBe(
+      "http://localhost:3000/"
+    );
+  });
+
+  it("deja pasar al administrador a todo el panel", async () => {
+    loginAs("ADMIN");
+
+    expect((await middleware(request("/admin"))).headers.get("x-middleware-next")).toBe("1");
+    expect((await middleware(request("/admin/imagenes"))).headers.get("x-middleware-next")).toBe("1");
+  });
+
+  it("no confunde rutas con el mismo prefijo", async () => {
+    loginAs(null);
+
+    const response = await middleware(request("/administracion"));
+
+    expect(response.headers.get("x-middleware-next")).toBe("1");
+    expect(getToken).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { requireRole } from "@/lib/roles";
+import { Rol } from "@/lib/types/iRol";
+
+const LOGIN_PATH = "/login";
+
+// Ordenadas de la más específica a la más general
+const ROLE_ROUTES: { route: string; rol: Rol }[] = [
+  { route: "/admin/imagenes", rol: "ADMIN" },
+  { route: "/admin", rol: "MODERATOR" },
+];
+const PRIVATE_ROUTES = ["/mis-avisos", "/mis-favoritos", "/nuevo-aviso", "/editar-aviso", ...ROLE_ROUTES.map(({ route }) => route)];
+
+const matchesRoute = (pathname: string, route: string) => pathname === route || pathname.startsWith(`${route}/`);
+
+/**
+ * Protege las páginas privadas con el JWT de NextAuth antes de renderizarlas. Sin sesión
+ * redirige al login conservando el destino en `callbackUrl`; las rutas de administración
+ * además exigen el rol que corresponda.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (!PRIVATE_ROUTES.some((route) => matchesRoute(pathname, route))) {
+    return NextResponse.next();
+  }
+
+  const token = await getToken({ req: request });
+
+  if (!token) {
+    const loginUrl = new URL(LOGIN_PATH, request.url);
+    loginUrl.searchParams.set("callbackUrl", `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  const roleRoute = ROLE_ROUTES.find(({ route }) => matchesRoute(pathname, route));
+  if (roleRoute && !requireRole(token, roleRoute.rol)) {
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: [
+    "/admin/:path*",
+    "/mis-avisos/:path*",
+    "/mis-favoritos/:path*",
+    "/nuevo-aviso/:path*",
+    "/editar-aviso/:path*",
+  ],
+};
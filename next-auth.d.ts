@@ -1,13 +1,17 @@
 import NextAuth from "next-auth";
+import { Rol } from "@/lib/types/iRol";
+import { LoginResponse } from "@/lib/api/auth";
 
 declare module "next-auth" {
   interface User {
     id: string; 
+    backendLogin?: LoginResponse;
   }
 
   interface Session {
-    user: User;
+    user: User & { rol?: Rol };
     backendToken: string;
+    error?: "RefreshTokenError";
   }
 }
 
@@ -15,5 +19,8 @@ declare module "next-auth/jwt" {
   interface JWT {
     id: string;
     backendToken: string;
+    backendTokenExpires?: number;
+    rol?: Rol;
+    error?: "RefreshTokenError";
   }
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { defineConfig, devices } from "@playwright/test";
+import { E2E_AUTH_SECRET, E2E_BASE_URL, E2E_PORT } from "./e2e/env";
+
+export default defineConfig({
+  testDir: "./e2e",
+  // El backend simulado guarda los datos en memoria, así que los escenarios no pueden correr en paralelo
+  fullyParallel: false,
+  workers: 1,
+  retries: process.env.CI ? 1 : 0,
+  forbidOnly: !!process.env.CI,
+  reporter: process.env.CI ? "github" : "list",
+  use: {
+    baseURL: E2E_BASE_URL,
+    trace: "retain-on-failure",
+  },
+  projects: [
+    {
+      name: "chromium",
+      use: { ...devices["Desktop Chrome"] },
+    },
+  ],
+  webServer: {
+    command: `pnpm dev --port ${E2E_PORT}`,
+    url: E2E_BASE_URL,
+    reuseExistingServer: !process.env.CI,
+    timeout: 120 * 1000,
+    env: {
+      NEXT_PUBLIC_MOCK_API: "true",
+      NEXTAUTH_URL: E2E_BASE_URL,
+      NEXTAUTH_SECRET: E2E_AUTH_SECRET,
+      GOOGLE_CLIENT_ID: "e2e",
+      GOOGLE_CLIENT_SECRET: "e2e",
+    },
+  },
+});
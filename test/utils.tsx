@@ -0,0 +1,39 @@
+import type React from "react";
+import { render } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { vi } from "vitest";
+
+export function createTestQueryClient() {
+  return new QueryClient({
+    defaultOptions: {
+      queries: { retry: false, gcTime: Infinity },
+      mutations: { retry: false },
+    },
+  });
+}
+
+export function createWrapper(queryClient: QueryClient = createTestQueryClient()) {
+  return function Wrapper({ children }: { children: React.ReactNode }) {
+    return <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+  };
+}
+
+export function renderWithQueryClient(ui: React.ReactElement, queryClient: QueryClient = createTestQueryClient()) {
+  return { queryClient, ...render(ui, { wrapper: createWrapper(queryClient) }) };
+}
+
+type MockResponse = { status?: number; body?: unknown };
+
+/**
+ * Reemplaza `fetch` por un mock que responde en orden las respuestas indicadas.
+ * Los cuerpos que no son string se serializan como JSON.
+ */
+export function mockFetch(...responses: MockResponse[]) {
+  const fetchMock = vi.fn();
+  responses.forEach(({ status = 200, body }) => {
+    const payload = body === undefined ? null : typeof body === "string" ? body : JSON.stringify(body);
+    fetchMock.mockImplementationOnce(async () => new Response(payload, { status }));
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}